@@ -29,6 +29,8 @@ export default [
                 InputEvent: 'readonly',
                 TouchEvent: 'readonly',
                 Event: 'readonly',
+                CustomEvent: 'readonly',
+                fetch: 'readonly',
                 Date: 'readonly',
                 Set: 'readonly',
                 Map: 'readonly',
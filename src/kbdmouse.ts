@@ -2,4 +2,32 @@
 import './virtual-keyboard/styles/vk-keyboard.css';
 
 export { VkKeyboard } from './virtual-keyboard/scripts/vk-keyboard.js';
+export { VkImeBridge } from './virtual-keyboard/scripts/vk-ime-bridge.js';
+export type { VkSink, VkSinkOptions, VkKeyInfo } from './virtual-keyboard/scripts/vk-sinks.js';
+export type { VkEditingAdapter } from './virtual-keyboard/scripts/vk-editing.js';
+export type { LedState } from './virtual-keyboard/scripts/vk-state.js';
+export type { ModifierMode } from './virtual-keyboard/scripts/vk-user-operation.js';
+export type { TypeTextOptions, TypeTextResult } from './virtual-keyboard/scripts/vk-typing.js';
+export { serializeMacro, parseMacro, MACRO_VERSION } from './virtual-keyboard/scripts/vk-macro.js';
+export type {
+    KeyMacro,
+    MacroEvent,
+    MacroPlayback,
+    PlayMacroOptions,
+} from './virtual-keyboard/scripts/vk-macro.js';
+export {
+    getMakeCode,
+    getBreakCode,
+    createScancodeSink,
+    decodeTypematic,
+} from './virtual-keyboard/scripts/vk-scancodes.js';
+export type { ScancodeSet } from './virtual-keyboard/scripts/vk-scancodes.js';
+export { createTerminalSink, getTerminalSequence } from './virtual-keyboard/scripts/vk-terminal.js';
+export type {
+    TerminalMode,
+    TerminalOptions,
+    TerminalSink,
+} from './virtual-keyboard/scripts/vk-terminal.js';
+export { romajiConverter } from './virtual-keyboard/scripts/vk-ime.js';
+export type { ImeConverter } from './virtual-keyboard/scripts/vk-ime.js';
 export { VkMouse } from './mouse-polyfill/scripts/vk-mouse.js';
@@ -0,0 +1,32 @@
+import type { VkKeyboard } from './vk-keyboard';
+
+/**
+ * Clipboard for Ctrl+C, Ctrl+X and Ctrl+V on the virtual keyboard. Uses the async Clipboard
+ * API, and keeps the last copied text so that pasting still works where reading the system
+ * clipboard is not permitted.
+ */
+export class VkClipboard {
+    constructor(vkKeyboard: VkKeyboard) {
+        this.vkKeyboard = vkKeyboard;
+    }
+    vkKeyboard!: VkKeyboard;
+
+    private fallbackText = '';
+
+    async writeText(text: string) {
+        this.fallbackText = text;
+        try {
+            await navigator.clipboard.writeText(text);
+        } catch {
+            // Permission denied or no secure context; the copy stays in memory
+        }
+    }
+
+    async readText(): Promise<string> {
+        try {
+            return await navigator.clipboard.readText();
+        } catch {
+            return this.fallbackText;
+        }
+    }
+}
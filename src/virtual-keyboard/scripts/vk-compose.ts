@@ -0,0 +1,97 @@
+import type { VkKeyboard } from './vk-keyboard';
+
+export class VkCompose {
+    constructor(vkKeyboard: VkKeyboard) {
+        this.vkKeyboard = vkKeyboard;
+    }
+    vkKeyboard!: VkKeyboard;
+
+    private mode: 'idle' | 'dead' | 'compose' = 'idle';
+    // Pending dead character, or the characters typed since the Compose key
+    private buffer = '';
+
+    get isComposing() {
+        return this.mode !== 'idle';
+    }
+
+    reset() {
+        this.mode = 'idle';
+        this.buffer = '';
+    }
+
+    isComposeKey(code: string) {
+        return this.vkKeyboard.jsonLayout.layoutData?.compose?.key === code;
+    }
+
+    isDeadKey(code: string) {
+        return this.vkKeyboard.jsonLayout.getKeyItemByCode(code)?.deadKey !== undefined;
+    }
+
+    /**
+     * Feed a key press to the dead key / compose state machine.
+     * Returns the text to commit, an empty string when the press was consumed
+     * without producing text yet, or null when the key should be handled normally.
+     */
+    processKey(code: string): string | null {
+        const jsonLayout = this.vkKeyboard.jsonLayout;
+        const layoutData = jsonLayout.layoutData;
+        if (!layoutData || this.vkKeyboard.state.hasShortcutModifierPressed(code)) {
+            return null;
+        }
+
+        if (this.isComposeKey(code)) {
+            this.mode = 'compose';
+            this.buffer = '';
+            return '';
+        }
+
+        const keyItem = jsonLayout.getKeyItemByCode(code);
+        const deadKey = keyItem?.deadKey;
+        const char = deadKey ?? (keyItem && jsonLayout.isPrintableKey(code) ? keyItem.key : null);
+
+        if (this.mode === 'idle') {
+            if (deadKey === undefined) return null;
+            this.mode = 'dead';
+            this.buffer = deadKey;
+            return '';
+        }
+
+        // A non-character key (Backspace, Escape, arrows, ...) cancels the sequence
+        if (char === null) {
+            this.reset();
+            return null;
+        }
+
+        if (this.mode === 'dead') {
+            const pendingDeadKey = this.buffer;
+            this.reset();
+            const combined = layoutData.deadKeys?.[pendingDeadKey]?.[char];
+            if (combined !== undefined) return combined;
+            // Space or the same dead key again produce the dead character on its own
+            if (code === 'Space' || char === pendingDeadKey) return pendingDeadKey;
+            // Unmatched: emit the dead character followed by the key's own character
+            return pendingDeadKey + char;
+        }
+
+        this.buffer += char;
+        const sequences = layoutData.compose?.sequences || {};
+        const sequence = this.buffer;
+        const reversed = Array.from(sequence).reverse().join('');
+        const result =
+            sequences[sequence] ?? (sequence.length === 2 ? sequences[reversed] : undefined);
+        if (result !== undefined) {
+            this.reset();
+            return result;
+        }
+        const isPrefix = Object.keys(sequences).some(
+            (key) =>
+                key.startsWith(sequence) ||
+                (key.length === 2 && Array.from(key).reverse().join('').startsWith(sequence))
+        );
+        if (!isPrefix) {
+            // Unmatched compose sequences are discarded, as X11 does
+            this.reset();
+        }
+        return '';
+    }
+}
@@ -0,0 +1,109 @@
+import type { VkKeyboard } from './vk-keyboard';
+import { setNativeValue } from './vk-editing';
+
+type TextControl = HTMLInputElement | HTMLTextAreaElement;
+
+// Text and selection of a text control before an edit
+interface EditSnapshot {
+    value: string;
+    selectionStart: number;
+    selectionEnd: number;
+}
+
+interface ElementHistory {
+    undo: EditSnapshot[];
+    redo: EditSnapshot[];
+    // Kind of the last edit and where its caret ended, to merge a run of typing into one step
+    lastKind: 'insert' | 'delete' | null;
+    lastCaret: number;
+    // Value we left the element with; anything else means it was edited elsewhere
+    lastValue: string;
+}
+
+// Undo steps kept per element
+const historyLimit = 100;
+
+/**
+ * Undo history for edits the virtual keyboard makes to inputs and textareas. They are made
+ * with setRangeText() and the native value setter, which browsers treat as script changes
+ * and leave off their own undo stack. Contenteditable elements are edited with execCommand
+ * and keep the native history.
+ */
+export class VkEditHistory {
+    constructor(vkKeyboard: VkKeyboard) {
+        this.vkKeyboard = vkKeyboard;
+    }
+    vkKeyboard!: VkKeyboard;
+
+    private histories: WeakMap<TextControl, ElementHistory> = new WeakMap();
+
+    // Remember the state before an edit. Consecutive insertions (or deletions) that continue
+    // at the caret are undone together, like typing a word.
+    record(input: TextControl, kind: 'insert' | 'delete' | 'other') {
+        const history = this.getHistory(input);
+        const selectionStart = input.selectionStart ?? 0;
+        const selectionEnd = input.selectionEnd ?? selectionStart;
+        const continuesRun =
+            kind !== 'other' &&
+            kind === history.lastKind &&
+            selectionStart === selectionEnd &&
+            selectionStart === history.lastCaret &&
+            history.undo.length > 0;
+        if (!continuesRun) {
+            history.undo.push({ value: input.value, selectionStart, selectionEnd });
+            if (history.undo.length > historyLimit) {
+                history.undo.shift();
+            }
+        }
+        history.redo = [];
+        history.lastKind = kind === 'other' ? null : kind;
+    }
+
+    // Note the result of an edit recorded with record()
+    recorded(input: TextControl) {
+        const history = this.getHistory(input);
+        history.lastCaret = input.selectionEnd ?? 0;
+        history.lastValue = input.value;
+    }
+
+    /** Undo the last virtual edit. Returns false when there is nothing to undo. */
+    undo(input: TextControl) {
+        const history = this.getHistory(input);
+        return this.restore(input, history.undo, history.redo);
+    }
+
+    /** Redo the last undone edit. Returns false when there is nothing to redo. */
+    redo(input: TextControl) {
+        const history = this.getHistory(input);
+        return this.restore(input, history.redo, history.undo);
+    }
+
+    private restore(input: TextControl, from: EditSnapshot[], to: EditSnapshot[]) {
+        const history = this.getHistory(input);
+        const snapshot = from.pop();
+        if (!snapshot) return false;
+        to.push({
+            value: input.value,
+            selectionStart: input.selectionStart ?? 0,
+            selectionEnd: input.selectionEnd ?? 0,
+        });
+        setNativeValue(input, snapshot.value);
+        // Email and number inputs have no selection to restore
+        if (input.selectionStart !== null) {
+            input.setSelectionRange(snapshot.selectionStart, snapshot.selectionEnd);
+        }
+        history.lastKind = null;
+        history.lastValue = input.value;
+        return true;
+    }
+
+    private getHistory(input: TextControl) {
+        let history = this.histories.get(input);
+        // Edits made by other means would be lost by restoring our snapshots
+        if (!history || history.lastValue !== input.value) {
+            history = { undo: [], redo: [], lastKind: null, lastCaret: 0, lastValue: input.value };
+            this.histories.set(input, history);
+        }
+        return history;
+    }
+}
@@ -1,7 +1,72 @@
 import type { VkKeyboard } from './vk-keyboard';
+import type { VkKeyInfo } from './vk-sinks';
 
-interface RangeWithModify extends Range {
-    modify(alter: 'move' | 'extend', direction: 'forward' | 'backward', granularity: 'character' | 'word' | 'line' | 'lineboundary'): void;
+/**
+ * Edits a custom editor that takes no text through DOM editing, such as a code editor drawn
+ * on a canvas or a terminal emulator. Register it with `addEditingAdapter()`.
+ */
+export interface VkEditingAdapter {
+    /** Whether this adapter edits `element`, the keyboard's target. */
+    matches(element: HTMLElement): boolean;
+    /** Insert text at the caret: typed characters, dead key, Compose and IME results, pastes. */
+    insertText?(element: HTMLElement, text: string): void;
+    /**
+     * Any other key press, such as Enter, Backspace, an arrow or a shortcut like Ctrl+C, with
+     * the modifier state in `info`.
+     */
+    keyDown?(element: HTMLElement, info: VkKeyInfo): void;
+}
+
+// Selection.modify() is not standardised, but every major browser implements it
+interface SelectionWithModify extends Selection {
+    modify(
+        alter: 'move' | 'extend',
+        direction: 'forward' | 'backward',
+        granularity: 'character' | 'word' | 'line' | 'lineboundary'
+    ): void;
+}
+
+type TextControl = HTMLInputElement | HTMLTextAreaElement;
+
+// Input types edited as text at a caret
+const caretInputTypes = ['text', 'search', 'url', 'tel', 'password'];
+
+// Input types that take typed text but have no caret, with the characters each accepts.
+// Their value is only set once the typed text is valid for the type.
+const caretlessInputTypes: Record<string, RegExp> = {
+    email: /^[^\n]*$/,
+    number: /^[0-9eE+\-.]*$/,
+    date: /^[0-9-]*$/,
+    time: /^[0-9:.]*$/,
+    'datetime-local': /^[0-9\-:T .]*$/,
+    month: /^[0-9-]*$/,
+    week: /^[0-9\-W]*$/,
+};
+
+/**
+ * Set a text control's value through the prototype's setter. Frameworks such as React
+ * shadow `value` on the element to track changes, and only notice one made underneath.
+ */
+export function setNativeValue(input: TextControl, value: string) {
+    const prototype = Object.getPrototypeOf(input) as TextControl;
+    Object.getOwnPropertyDescriptor(prototype, 'value')?.set?.call(input, value);
+}
+
+// Letters, digits and connectors; anything else separates words
+const wordCharacter = /[\p{L}\p{N}\p{M}_]/u;
+
+// Position Ctrl+Arrow moves to from `position`: backward to the start of the previous word,
+// forward to the end of the next one
+function findWordBoundary(value: string, position: number, direction: 'backward' | 'forward') {
+    let i = position;
+    if (direction === 'backward') {
+        while (i > 0 && !wordCharacter.test(value[i - 1])) i--;
+        while (i > 0 && wordCharacter.test(value[i - 1])) i--;
+    } else {
+        while (i < value.length && !wordCharacter.test(value[i])) i++;
+        while (i < value.length && wordCharacter.test(value[i])) i++;
+    }
+    return i;
 }
 
 export class VkEditing {
@@ -10,38 +75,64 @@ export class VkEditing {
     }
     vkKeyboard!: VkKeyboard;
 
+    private adapters: VkEditingAdapter[] = [];
+    // Text typed into inputs without a caret, such as number or date inputs. These drop text
+    // that is no valid value yet, such as "-", so it is kept here and the value it produced
+    // tells whether the element was changed elsewhere since.
+    private drafts: WeakMap<HTMLInputElement, { text: string; value: string }> = new WeakMap();
+    // Value of each text control before the keyboard's first edit since its last change event
+    private pendingChanges: WeakMap<TextControl, string> = new WeakMap();
+
     isEditable() {
-        const activeElement = document.activeElement;
+        return this.isEditableElement(this.vkKeyboard.getTargetElement());
+    }
+
+    addAdapter(adapter: VkEditingAdapter) {
+        if (!this.adapters.includes(adapter)) {
+            this.adapters.push(adapter);
+        }
+    }
+
+    removeAdapter(adapter: VkEditingAdapter) {
+        this.adapters = this.adapters.filter((registered) => registered !== adapter);
+    }
+
+    // The most recently registered adapter that edits the element, if any
+    private getAdapter(element: HTMLElement) {
+        for (let i = this.adapters.length - 1; i >= 0; i--) {
+            try {
+                if (this.adapters[i].matches(element)) return this.adapters[i];
+            } catch (error) {
+                this.vkKeyboard.logger.writeError(
+                    'Virtual keyboard editing adapter failed in matches:',
+                    error
+                );
+            }
+        }
+        return null;
+    }
+
+    isEditableElement(activeElement: HTMLElement | null) {
         if (!activeElement) {
             return false;
         }
+        // Custom editors may hide a plain textarea or input, so adapters come first
+        if (this.getAdapter(activeElement)) {
+            return true;
+        }
         if (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA') {
-            // Check if disabled or readonly
-            if (
-                activeElement.hasAttribute('disabled') ||
-                activeElement.hasAttribute('readonly')
-            ) {
+            const input = activeElement as TextControl;
+            if (input.disabled || input.readOnly) {
                 return false;
             }
-            // For INPUT element, check if type is in editable types list
-            if (activeElement.tagName === 'INPUT') {
-                const textLikeTypes = [
-                    'text',
-                    'email',
-                    'number',
-                    'search',
-                    'tel',
-                    'url',
-                    'password',
-                ];
-                return textLikeTypes.includes((activeElement as HTMLInputElement).type || 'text');
+            // Buttons, checkboxes, ranges, colors and files take no typed text
+            if (input.tagName === 'INPUT') {
+                return caretInputTypes.includes(input.type) || input.type in caretlessInputTypes;
             }
-            // TEXTAREA elements are editable by default
-            return true;
-        } else if (activeElement.getAttribute('contenteditable') === 'true') {
             return true;
         }
-        return false;
+        // Inherited editing, contenteditable="" and "plaintext-only" alike
+        return activeElement.isContentEditable;
     }
 
     keyDown(code: string) {
@@ -54,189 +145,539 @@ export class VkEditing {
             return;
         }
 
-        // Check if any modifier keys are pressed
-        const hasModifierPressed =
-            this.vkKeyboard.state.isKeyDown('ControlLeft') ||
-            this.vkKeyboard.state.isKeyDown('ControlRight') ||
-            this.vkKeyboard.state.isKeyDown('AltLeft') ||
-            this.vkKeyboard.state.isKeyDown('AltRight') ||
-            this.vkKeyboard.state.isKeyDown('MetaLeft') ||
-            this.vkKeyboard.state.isKeyDown('MetaRight');
+        // Check if any modifier keys are pressed (AltGr selecting a character does not count)
+        const hasModifierPressed = this.vkKeyboard.state.hasShortcutModifierPressed(code);
+
+        const activeElement = this.vkKeyboard.getTargetElement();
+        const adapter = this.getAdapter(activeElement);
+        if (adapter) {
+            const isText = this.vkKeyboard.jsonLayout.isPrintableKey(code) && !hasModifierPressed;
+            this.callAdapter('keyDown', () => {
+                if (isText) {
+                    adapter.insertText?.(activeElement, keyItem.key);
+                } else {
+                    const repeat = this.vkKeyboard.state.isKeyRepeating(code);
+                    const info = this.vkKeyboard.eventDispatcher.getKeyInfo(keyItem, repeat);
+                    adapter.keyDown?.(activeElement, info);
+                }
+            });
+            return;
+        }
 
         if (this.vkKeyboard.jsonLayout.isPrintableKey(code)) {
             // Only insert text if no modifier keys are pressed
             if (!hasModifierPressed) {
-                this.insertText(keyItem.key);
-                this.vkKeyboard.eventDispatcher.input(code);
+                this.insert('insertText', keyItem.key);
+            } else if (this.isControlHeld() && !this.isAltHeld()) {
+                this.handleShortcut(keyItem.key.toLowerCase());
             }
             return;
         }
 
+        const extend = this.isShiftHeld();
+        const byWord = this.isControlHeld();
+
         switch (code) {
             case 'Enter':
-                this.insertLineBreak();
-                this.vkKeyboard.eventDispatcher.input(code);
+            case 'NumpadEnter':
+                if (this.vkKeyboard.getTargetElement().tagName === 'INPUT') {
+                    // A single-line input takes no line break, but commits its value
+                    this.commitChange(this.vkKeyboard.getTargetElement() as HTMLInputElement);
+                } else {
+                    this.insert('insertLineBreak', '\n');
+                }
                 break;
             case 'Backspace':
-                this.deleteContentBackward();
-                this.vkKeyboard.eventDispatcher.input(code);
+                if (byWord) {
+                    this.edit('deleteWordBackward', null, () => this.deleteWordBackward());
+                } else {
+                    this.edit('deleteContentBackward', null, () => this.deleteContentBackward());
+                }
                 break;
             case 'Delete':
-                this.deleteContentForward();
-                this.vkKeyboard.eventDispatcher.input(code);
+                if (byWord) {
+                    this.edit('deleteWordForward', null, () => this.deleteWordForward());
+                } else {
+                    this.edit('deleteContentForward', null, () => this.deleteContentForward());
+                }
                 break;
             case 'Tab':
                 // Allow Tab to insert text only if no modifiers are pressed
                 if (!hasModifierPressed) {
-                    this.insertText('\t');
+                    this.insert('insertText', '\t');
+                }
+                break;
+            case 'Insert':
+                if (!hasModifierPressed && !extend) {
+                    this.vkKeyboard.overwriteMode = !this.vkKeyboard.overwriteMode;
                 }
-                this.vkKeyboard.eventDispatcher.input(code);
                 break;
             case 'ArrowLeft':
-                this.moveCursor(1, 'left');
+                this.moveCursor(1, 'left', extend, byWord ? 'word' : 'character');
                 break;
             case 'ArrowRight':
-                this.moveCursor(1, 'right');
+                this.moveCursor(1, 'right', extend, byWord ? 'word' : 'character');
                 break;
             case 'ArrowUp':
-                this.moveCursor(1, 'up');
+                this.moveCursor(1, 'up', extend);
                 break;
             case 'ArrowDown':
-                this.moveCursor(1, 'down');
+                this.moveCursor(1, 'down', extend);
                 break;
             case 'Home':
-                this.moveCursorToEdge('lineStart');
+                this.moveCursorToEdge(byWord ? 'textBoxStart' : 'lineStart', extend);
                 break;
             case 'End':
-                this.moveCursorToEdge('lineEnd');
+                this.moveCursorToEdge(byWord ? 'textBoxEnd' : 'lineEnd', extend);
                 break;
             case 'PageUp':
-                this.moveCursor(10, 'up');
+                this.moveCursor(10, 'up', extend);
                 break;
             case 'PageDown':
-                this.moveCursor(10, 'down');
+                this.moveCursor(10, 'down', extend);
+                break;
+        }
+    }
+
+    private isShiftHeld() {
+        const state = this.vkKeyboard.state;
+        return state.isModifierHeld('ShiftLeft') || state.isModifierHeld('ShiftRight');
+    }
+
+    private isControlHeld() {
+        const state = this.vkKeyboard.state;
+        return state.isModifierHeld('ControlLeft') || state.isModifierHeld('ControlRight');
+    }
+
+    private isAltHeld() {
+        const state = this.vkKeyboard.state;
+        return state.isModifierHeld('AltLeft') || state.isModifierHeld('AltRight');
+    }
+
+    // Ctrl shortcuts, matched by the character on the key like native editors do
+    private handleShortcut(key: string) {
+        switch (key) {
+            case 'a':
+                this.selectAll();
+                break;
+            case 'c':
+                this.copy();
+                break;
+            case 'x':
+                this.cut();
+                break;
+            case 'v':
+                this.paste();
+                break;
+            case 'z':
+                if (this.isShiftHeld()) {
+                    this.redo();
+                } else {
+                    this.undo();
+                }
+                break;
+            case 'y':
+                this.redo();
                 break;
         }
     }
 
-    moveCursor(step: number, direction: 'left' | 'right' | 'up' | 'down') {
-        const activeElement = document.activeElement!;
+    selectAll() {
+        const activeElement = this.vkKeyboard.getTargetElement();
         if (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA') {
-            const input = activeElement as HTMLInputElement | HTMLTextAreaElement;
-            const selectionStart = input.selectionStart!;
-            const selectionEnd = input.selectionEnd!;
-            if (direction === 'left') {
-                const newPos = Math.max(0, selectionStart - step);
-                input.setSelectionRange(newPos, newPos);
-            } else if (direction === 'right') {
-                const newPos = Math.min(input.value.length, selectionEnd + step);
-                input.setSelectionRange(newPos, newPos);
-            } else if (direction === 'up' || direction === 'down') {
-                const value = input.value;
-                // Find the start position of the current line and column offset
-                const lineStart = value.lastIndexOf('\n', selectionStart - 1) + 1;
-                const col = selectionStart - lineStart;
-                if (direction === 'up') {
-                    // Find previous line
-                    const prevLineEnd = lineStart - 1;
-                    if (prevLineEnd < 0) return; // Already at first line
-                    const prevLineStart = value.lastIndexOf('\n', prevLineEnd - 1) + 1;
-                    const newPos = prevLineStart + Math.min(col, prevLineEnd - prevLineStart);
-                    input.setSelectionRange(newPos, newPos);
+            (activeElement as TextControl).select();
+        } else if (activeElement.isContentEditable) {
+            this.getSelection(activeElement)?.selectAllChildren(activeElement);
+        }
+    }
+
+    private getSelectedText() {
+        const activeElement = this.vkKeyboard.getTargetElement();
+        if (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA') {
+            const input = activeElement as TextControl;
+            if (!this.hasCaret(input)) return '';
+            return input.value.slice(input.selectionStart!, input.selectionEnd!);
+        } else if (activeElement.isContentEditable) {
+            return this.getSelection(activeElement)?.toString() ?? '';
+        }
+        return '';
+    }
+
+    copy() {
+        const text = this.getSelectedText();
+        if (text) {
+            void this.vkKeyboard.clipboard.writeText(text);
+        }
+    }
+
+    cut() {
+        const text = this.getSelectedText();
+        if (!text) return;
+        void this.vkKeyboard.clipboard.writeText(text);
+        // With a selection, Backspace deletes just the selection
+        this.edit('deleteByCut', null, () => this.deleteContentBackward());
+    }
+
+    async paste() {
+        const element = this.vkKeyboard.getTargetElement();
+        const text = await this.vkKeyboard.clipboard.readText();
+        // Focus may have moved on while the clipboard was read
+        if (!text || this.vkKeyboard.getTargetElement() !== element || !this.isEditable()) {
+            return;
+        }
+        this.insert('insertFromPaste', text);
+    }
+
+    undo() {
+        this.applyHistory('undo');
+    }
+
+    redo() {
+        this.applyHistory('redo');
+    }
+
+    private applyHistory(action: 'undo' | 'redo') {
+        const activeElement = this.vkKeyboard.getTargetElement();
+        const inputType = action === 'undo' ? 'historyUndo' : 'historyRedo';
+        if (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA') {
+            const history = this.vkKeyboard.editHistory;
+            const input = activeElement as TextControl;
+            this.edit(inputType, null, () =>
+                action === 'undo' ? history.undo(input) : history.redo(input)
+            );
+        } else if (activeElement.isContentEditable) {
+            // execCommand edits are on the browser's own undo stack
+            this.edit(inputType, null, () => {
+                activeElement.ownerDocument.execCommand(action, false, '');
+            });
+        }
+    }
+
+    // Insert text produced by a dead key or Compose sequence
+    commitText(text: string) {
+        if (!this.isEditable()) {
+            return;
+        }
+        this.insert('insertText', text);
+    }
+
+    // Insert text committed by the IME; the input events are still part of the composition
+    commitComposition(text: string) {
+        if (!this.isEditable()) {
+            return;
+        }
+        this.insert('insertCompositionText', text, true);
+    }
+
+    /**
+     * Run an edit the way the browser runs typing: a cancelable beforeinput first, then the
+     * change, then input. `apply` may return false when there was nothing to change.
+     * execCommand fires input itself, so contenteditable edits don't get a second one.
+     */
+    private edit(
+        inputType: string,
+        data: string | null,
+        apply: () => boolean | void,
+        isComposing = false
+    ) {
+        const dispatcher = this.vkKeyboard.eventDispatcher;
+        const activeElement = this.vkKeyboard.getTargetElement();
+        if (!dispatcher.beforeInput(inputType, data, isComposing)) {
+            return;
+        }
+        if (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA') {
+            this.trackChange(activeElement as TextControl);
+        }
+        const changed = apply() !== false;
+        if (changed && !activeElement.isContentEditable) {
+            dispatcher.input(inputType, data, isComposing);
+        }
+    }
+
+    // Insert text as the browser would type it: cut to the room `maxlength` leaves, and
+    // only characters an input without a caret accepts. Adapters take the text as is.
+    private insert(inputType: string, text: string, isComposing = false) {
+        const activeElement = this.vkKeyboard.getTargetElement();
+        const adapter = this.getAdapter(activeElement);
+        if (adapter) {
+            this.callAdapter('insertText', () => adapter.insertText?.(activeElement, text));
+            return;
+        }
+        if (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA') {
+            const input = activeElement as TextControl;
+            const accepted = caretlessInputTypes[input.type];
+            if (input.tagName === 'INPUT' && accepted && !accepted.test(text)) {
+                return;
+            }
+            if (input.maxLength >= 0) {
+                const current = this.hasCaret(input) ? input.value : this.getDraft(input);
+                let replaced = 0;
+                if (this.hasCaret(input)) {
+                    const { start, end } = this.getReplacedRange(input, text);
+                    replaced = end - start;
+                }
+                const room = Math.max(0, input.maxLength - (current.length - replaced));
+                text = text.slice(0, room);
+                if (!text) return;
+            }
+        }
+        this.edit(inputType, text, () => this.insertText(text), isComposing);
+    }
+
+    // Remember the value to compare against on blur, when the first edit is made
+    private trackChange(input: TextControl) {
+        if (this.pendingChanges.has(input)) return;
+        this.pendingChanges.set(input, input.value);
+        input.addEventListener('blur', this.handleBlur);
+    }
+
+    private handleBlur = (event: Event) => {
+        this.commitChange(event.target as TextControl);
+    };
+
+    // A failing adapter must not break the keyboard itself
+    private callAdapter(method: keyof VkEditingAdapter, call: () => void) {
+        try {
+            call();
+        } catch (error) {
+            this.vkKeyboard.logger.writeError(
+                `Virtual keyboard editing adapter failed in ${method}:`,
+                error
+            );
+        }
+    }
+
+    // Fire change if the value differs from before the keyboard's edits, like native typing
+    private commitChange(input: TextControl) {
+        const originalValue = this.pendingChanges.get(input);
+        if (originalValue === undefined) return;
+        this.pendingChanges.delete(input);
+        input.removeEventListener('blur', this.handleBlur);
+        if (input.value !== originalValue) {
+            input.dispatchEvent(new Event('change', { bubbles: true }));
+        }
+    }
+
+    // Inputs such as email, number and date report no selection and can't be edited at a caret
+    private hasCaret(input: TextControl) {
+        return input.selectionStart !== null;
+    }
+
+    private getDraft(input: HTMLInputElement | HTMLTextAreaElement) {
+        const draft = this.drafts.get(input as HTMLInputElement);
+        return draft && draft.value === input.value ? draft.text : input.value;
+    }
+
+    private setDraft(input: TextControl, text: string) {
+        const history = this.vkKeyboard.editHistory;
+        history.record(input, 'other');
+        setNativeValue(input, text);
+        this.drafts.set(input as HTMLInputElement, { text, value: input.value });
+        history.recorded(input);
+    }
+
+    /**
+     * Move the caret, or with `extend` move the focus end of the selection while its anchor
+     * stays put. Left and right move by character or word; up and down by line.
+     */
+    moveCursor(
+        step: number,
+        direction: 'left' | 'right' | 'up' | 'down',
+        extend = false,
+        granularity: 'character' | 'word' = 'character'
+    ) {
+        const activeElement = this.vkKeyboard.getTargetElement();
+        if (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA') {
+            const input = activeElement as TextControl;
+            if (!this.hasCaret(input)) return;
+            const { anchor, focus } = this.getSelectionEnds(input);
+            const value = input.value;
+            // Without Shift, a character step from a selection collapses it to that side
+            if (!extend && granularity === 'character' && anchor !== focus) {
+                if (direction === 'left' || direction === 'right') {
+                    const edge =
+                        direction === 'left' ? Math.min(anchor, focus) : Math.max(anchor, focus);
+                    input.setSelectionRange(edge, edge);
+                    return;
+                }
+            }
+            let newFocus = focus;
+            for (let i = 0; i < step; i++) {
+                if (direction === 'left') {
+                    newFocus =
+                        granularity === 'word'
+                            ? findWordBoundary(value, newFocus, 'backward')
+                            : Math.max(0, newFocus - 1);
+                } else if (direction === 'right') {
+                    newFocus =
+                        granularity === 'word'
+                            ? findWordBoundary(value, newFocus, 'forward')
+                            : Math.min(value.length, newFocus + 1);
                 } else {
-                    // Find next line
-                    const nextLineStart = value.indexOf('\n', selectionStart);
-                    if (nextLineStart === -1) return; // Already at last line
-                    const nextLineStart2 = nextLineStart + 1;
-                    const nextLineEnd = value.indexOf('\n', nextLineStart2);
-                    const nextLineLength =
-                        nextLineEnd === -1 ? value.length - nextLineStart2 : nextLineEnd - nextLineStart2;
-                    const newPos = nextLineStart2 + Math.min(col, nextLineLength);
-                    input.setSelectionRange(newPos, newPos);
+                    newFocus = this.getVerticalPosition(value, newFocus, direction);
                 }
             }
-        } else if (activeElement.getAttribute('contenteditable') === 'true') {
-            const selection = window.getSelection();
-            if (selection && selection.rangeCount > 0) {
-                const range = selection.getRangeAt(0);
+            this.setSelectionEnds(input, extend ? anchor : newFocus, newFocus);
+        } else if (activeElement.isContentEditable) {
+            const selection = this.getSelection(activeElement);
+            if (!selection || selection.rangeCount === 0) return;
+            if (!extend && granularity === 'character' && !selection.isCollapsed) {
+                if (direction === 'left') {
+                    selection.collapseToStart();
+                    return;
+                } else if (direction === 'right') {
+                    selection.collapseToEnd();
+                    return;
+                }
+            }
+            const alter = extend ? 'extend' : 'move';
+            for (let i = 0; i < step; i++) {
                 if (direction === 'left' || direction === 'right') {
-                    range.collapse(true);
-                    (range as RangeWithModify).modify(
-                        'move',
+                    selection.modify(
+                        alter,
                         direction === 'left' ? 'backward' : 'forward',
-                        'character'
-                    );
-                } else if (direction === 'up' || direction === 'down') {
-                    range.collapse(true);
-                    (range as RangeWithModify).modify(
-                        'move',
-                        direction === 'up' ? 'backward' : 'forward',
-                        'line'
+                        granularity
                     );
+                } else {
+                    selection.modify(alter, direction === 'up' ? 'backward' : 'forward', 'line');
                 }
-                selection.removeAllRanges();
-                selection.addRange(range);
             }
         }
     }
 
-    moveCursorToEdge(destination: 'textBoxStart' | 'textBoxEnd' | 'lineStart' | 'lineEnd') {
-        const activeElement = document.activeElement!;
+    /**
+     * Move the caret, or with `extend` the focus end of the selection, to the start or end
+     * of the line or of the whole text.
+     */
+    moveCursorToEdge(
+        destination: 'textBoxStart' | 'textBoxEnd' | 'lineStart' | 'lineEnd',
+        extend = false
+    ) {
+        const activeElement = this.vkKeyboard.getTargetElement();
         if (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA') {
-            const input = activeElement as HTMLInputElement | HTMLTextAreaElement;
-            const selectionStart = input.selectionStart!;
-            const selectionEnd = input.selectionEnd!;
+            const input = activeElement as TextControl;
+            if (!this.hasCaret(input)) return;
+            const { anchor, focus } = this.getSelectionEnds(input);
+            const value = input.value;
+            let newFocus: number;
             if (destination === 'textBoxStart') {
-                input.setSelectionRange(0, 0);
+                newFocus = 0;
             } else if (destination === 'textBoxEnd') {
-                input.setSelectionRange(input.value.length, input.value.length);
+                newFocus = value.length;
             } else if (destination === 'lineStart') {
-                input.setSelectionRange(
-                    selectionStart -
-                        (selectionStart - input.value.lastIndexOf('\n', selectionStart - 1)),
-                    selectionStart -
-                        (selectionStart - input.value.lastIndexOf('\n', selectionStart - 1))
-                );
-            } else if (destination === 'lineEnd') {
-                input.setSelectionRange(
-                    selectionEnd - (selectionEnd - input.value.indexOf('\n', selectionEnd)),
-                    selectionEnd - (selectionEnd - input.value.indexOf('\n', selectionEnd))
-                );
+                newFocus = value.lastIndexOf('\n', focus - 1) + 1;
+            } else {
+                const lineEnd = value.indexOf('\n', focus);
+                newFocus = lineEnd === -1 ? value.length : lineEnd;
             }
-        } else if (activeElement.getAttribute('contenteditable') === 'true') {
-            const selection = window.getSelection();
-            if (selection && selection.rangeCount > 0) {
-                const range = selection.getRangeAt(0);
-                if (destination === 'textBoxStart') {
-                    range.selectNodeContents(activeElement);
-                    range.collapse(true);
-                } else if (destination === 'textBoxEnd') {
-                    range.selectNodeContents(activeElement);
-                    range.collapse(false);
-                } else if (destination === 'lineStart') {
-                    range.collapse(true);
-                    (range as RangeWithModify).modify('move', 'backward', 'lineboundary');
-                } else if (destination === 'lineEnd') {
-                    range.collapse(true);
-                    (range as RangeWithModify).modify('move', 'forward', 'lineboundary');
+            this.setSelectionEnds(input, extend ? anchor : newFocus, newFocus);
+        } else if (activeElement.isContentEditable) {
+            const selection = this.getSelection(activeElement);
+            if (!selection || selection.rangeCount === 0) return;
+            if (destination === 'textBoxStart' || destination === 'textBoxEnd') {
+                const offset = destination === 'textBoxStart' ? 0 : activeElement.childNodes.length;
+                if (extend) {
+                    selection.extend(activeElement, offset);
+                } else {
+                    selection.collapse(activeElement, offset);
                 }
-                selection.removeAllRanges();
-                selection.addRange(range);
+            } else {
+                selection.modify(
+                    extend ? 'extend' : 'move',
+                    destination === 'lineStart' ? 'backward' : 'forward',
+                    'lineboundary'
+                );
             }
         }
     }
 
+    private getSelection(element: HTMLElement) {
+        return element.ownerDocument.getSelection() as SelectionWithModify | null;
+    }
+
+    // The fixed and the moving end of a text control's selection
+    private getSelectionEnds(input: TextControl) {
+        const selectionStart = input.selectionStart ?? 0;
+        const selectionEnd = input.selectionEnd ?? selectionStart;
+        return input.selectionDirection === 'backward'
+            ? { anchor: selectionEnd, focus: selectionStart }
+            : { anchor: selectionStart, focus: selectionEnd };
+    }
+
+    private setSelectionEnds(input: TextControl, anchor: number, focus: number) {
+        if (focus < anchor) {
+            input.setSelectionRange(focus, anchor, 'backward');
+        } else {
+            input.setSelectionRange(anchor, focus, 'forward');
+        }
+    }
+
+    // Same column on the previous or next line, clamped to that line's length
+    private getVerticalPosition(value: string, position: number, direction: 'up' | 'down') {
+        const lineStart = value.lastIndexOf('\n', position - 1) + 1;
+        const column = position - lineStart;
+        if (direction === 'up') {
+            const prevLineEnd = lineStart - 1;
+            if (prevLineEnd < 0) return position; // Already at first line
+            const prevLineStart = value.lastIndexOf('\n', prevLineEnd - 1) + 1;
+            return prevLineStart + Math.min(column, prevLineEnd - prevLineStart);
+        }
+        const lineEnd = value.indexOf('\n', position);
+        if (lineEnd === -1) return position; // Already at last line
+        const nextLineStart = lineEnd + 1;
+        const nextLineEnd = value.indexOf('\n', nextLineStart);
+        const nextLineLength =
+            nextLineEnd === -1 ? value.length - nextLineStart : nextLineEnd - nextLineStart;
+        return nextLineStart + Math.min(column, nextLineLength);
+    }
+
     insertText(text: string) {
-        const activeElement = document.activeElement!;
+        const activeElement = this.vkKeyboard.getTargetElement();
         if (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA') {
             const input = activeElement as HTMLInputElement | HTMLTextAreaElement;
-            const selectionStart = input.selectionStart!;
-            const selectionEnd = input.selectionEnd!;
-            input.value =
-                input.value.slice(0, selectionStart) + text + input.value.slice(selectionEnd);
-            input.setSelectionRange(selectionStart + text.length, selectionStart + text.length);
-        } else if (activeElement.getAttribute('contenteditable') === 'true') {
-            document.execCommand('insertText', false, text);
+            if (!this.hasCaret(input)) {
+                this.setDraft(input, this.getDraft(input) + text);
+            } else {
+                const { start, end } = this.getReplacedRange(input, text);
+                this.replaceRange(input, start, end, text, 'insert');
+            }
+        } else if (activeElement.isContentEditable) {
+            if (this.overwrites(text)) {
+                this.selectOverwrittenText(activeElement, text);
+            }
+            activeElement.ownerDocument.execCommand('insertText', false, text);
+        }
+    }
+
+    // Overwrite mode replaces characters, but a line break is still inserted
+    private overwrites(text: string) {
+        return this.vkKeyboard.state.overwriteMode && !text.includes('\n');
+    }
+
+    // Range of a text control's value that inserting `text` replaces: the selection, or in
+    // overwrite mode as many characters after the caret as are typed, up to the line end
+    private getReplacedRange(input: TextControl, text: string) {
+        const start = input.selectionStart!;
+        let end = input.selectionEnd!;
+        if (start === end && this.overwrites(text)) {
+            const lineEnd = input.value.indexOf('\n', start);
+            const restOfLine = input.value.slice(start, lineEnd === -1 ? undefined : lineEnd);
+            const count = Array.from(text).length;
+            end += Array.from(restOfLine).slice(0, count).join('').length;
+        }
+        return { start, end };
+    }
+
+    // Select the characters after the caret that typing `text` overwrites, up to the line end
+    private selectOverwrittenText(element: HTMLElement, text: string) {
+        const selection = this.getSelection(element);
+        if (!selection || !selection.isCollapsed) return;
+        selection.modify('extend', 'forward', 'lineboundary');
+        const restOfLine = selection.toString();
+        selection.collapseToStart();
+        const count = Math.min(Array.from(restOfLine).length, Array.from(text).length);
+        for (let i = 0; i < count; i++) {
+            selection.modify('extend', 'forward', 'character');
         }
     }
 
@@ -244,51 +685,113 @@ export class VkEditing {
         this.insertText('\n');
     }
 
+    // Returns false when there was nothing to delete
     deleteContentBackward() {
-        const activeElement = document.activeElement!;
+        const activeElement = this.vkKeyboard.getTargetElement();
         if (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA') {
             const input = activeElement as HTMLInputElement | HTMLTextAreaElement;
+            if (!this.hasCaret(input)) {
+                const draft = this.getDraft(input);
+                if (!draft) return false;
+                this.setDraft(input, draft.slice(0, -1));
+                return true;
+            }
             const selectionStart = input.selectionStart!;
             const selectionEnd = input.selectionEnd!;
             if (selectionStart !== selectionEnd) {
-                input.value =
-                    input.value.slice(0, selectionStart) + input.value.slice(selectionEnd);
-                input.setSelectionRange(selectionStart, selectionStart);
+                this.replaceRange(input, selectionStart, selectionEnd, '', 'other');
             } else if (selectionStart > 0) {
-                input.value =
-                    input.value.slice(0, selectionStart - 1) + input.value.slice(selectionStart);
-                input.setSelectionRange(selectionStart - 1, selectionStart - 1);
+                this.replaceRange(input, selectionStart - 1, selectionStart, '', 'delete');
+            } else {
+                return false;
             }
-        } else if (activeElement.getAttribute('contenteditable') === 'true') {
-            document.execCommand('delete', false, '');
+        } else if (activeElement.isContentEditable) {
+            activeElement.ownerDocument.execCommand('delete', false, '');
         }
+        return true;
     }
 
+    // Returns false when there was nothing to delete
     deleteContentForward() {
-        const activeElement = document.activeElement!;
+        const activeElement = this.vkKeyboard.getTargetElement();
         if (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA') {
             const input = activeElement as HTMLInputElement | HTMLTextAreaElement;
+            // Without a caret, editing happens at the end of the text
+            if (!this.hasCaret(input)) return false;
             const selectionStart = input.selectionStart!;
             const selectionEnd = input.selectionEnd!;
             if (selectionStart !== selectionEnd) {
-                input.value =
-                    input.value.slice(0, selectionStart) + input.value.slice(selectionEnd);
-                input.setSelectionRange(selectionStart, selectionStart);
+                this.replaceRange(input, selectionStart, selectionEnd, '', 'other');
             } else if (selectionEnd < input.value.length) {
-                input.value =
-                    input.value.slice(0, selectionEnd) + input.value.slice(selectionEnd + 1);
-                input.setSelectionRange(selectionEnd, selectionEnd);
+                this.replaceRange(input, selectionEnd, selectionEnd + 1, '', 'delete');
+            } else {
+                return false;
+            }
+        } else if (activeElement.isContentEditable) {
+            activeElement.ownerDocument.execCommand('forwardDelete', false, '');
+        }
+        return true;
+    }
+
+    // Ctrl+Backspace: delete the selection, or back to the start of the previous word
+    deleteWordBackward() {
+        return this.deleteWord('backward');
+    }
+
+    // Ctrl+Delete: delete the selection, or up to the end of the next word
+    deleteWordForward() {
+        return this.deleteWord('forward');
+    }
+
+    private deleteWord(direction: 'backward' | 'forward') {
+        const activeElement = this.vkKeyboard.getTargetElement();
+        if (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA') {
+            const input = activeElement as TextControl;
+            if (!this.hasCaret(input)) {
+                if (direction === 'forward') return false;
+                const draft = this.getDraft(input);
+                if (!draft) return false;
+                const wordStart = findWordBoundary(draft, draft.length, 'backward');
+                this.setDraft(input, draft.slice(0, wordStart));
+                return true;
             }
-        } else if (activeElement.getAttribute('contenteditable') === 'true') {
-            const selection = window.getSelection();
-            if (selection && selection.rangeCount > 0) {
-                const range = selection.getRangeAt(0);
-                if (range.collapsed) {
-                    range.deleteContents();
+            const selectionStart = input.selectionStart!;
+            const selectionEnd = input.selectionEnd!;
+            let start = selectionStart;
+            let end = selectionEnd;
+            if (selectionStart === selectionEnd) {
+                if (direction === 'backward') {
+                    start = findWordBoundary(input.value, selectionStart, 'backward');
                 } else {
-                    document.execCommand('delete', false, '');
+                    end = findWordBoundary(input.value, selectionEnd, 'forward');
                 }
             }
+            if (start === end) return false;
+            this.replaceRange(input, start, end, '', 'other');
+        } else if (activeElement.isContentEditable) {
+            const selection = this.getSelection(activeElement);
+            if (!selection || selection.rangeCount === 0) return false;
+            if (selection.isCollapsed) {
+                selection.modify('extend', direction, 'word');
+            }
+            activeElement.ownerDocument.execCommand('delete', false, '');
         }
+        return true;
+    }
+
+    // Replace part of a text control's value, leaving the caret after the new text, and
+    // record the edit for undo. Frameworks see the change like a native edit.
+    private replaceRange(
+        input: TextControl,
+        start: number,
+        end: number,
+        text: string,
+        kind: 'insert' | 'delete' | 'other'
+    ) {
+        const history = this.vkKeyboard.editHistory;
+        history.record(input, kind);
+        // Unlike assigning the value, setRangeText keeps the rest of the field's state
+        input.setRangeText(text, start, end, 'end');
+        history.recorded(input);
     }
 }
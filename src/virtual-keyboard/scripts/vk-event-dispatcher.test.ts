@@ -0,0 +1,93 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { VkEventDispatcher } from './vk-event-dispatcher';
+import { VkJsonLayout, builtInLayouts } from './vk-json-layout';
+import type { VkKeyboard } from './vk-keyboard';
+import { VkSinks } from './vk-sinks';
+import { VkState } from './vk-state';
+
+interface LegacyReadback {
+    type: string;
+    key: string;
+    keyCode: number;
+    which: number;
+    charCode: number;
+}
+
+// The parts of the keyboard element that dispatching relies on
+function createKeyboard(target: HTMLElement) {
+    const vkKeyboard = {
+        ime: { consumesKey: () => false, isComposing: false },
+        getTargetElement: () => target,
+    } as unknown as VkKeyboard;
+    vkKeyboard.state = new VkState(vkKeyboard);
+    vkKeyboard.sinks = new VkSinks(vkKeyboard);
+    vkKeyboard.jsonLayout = new VkJsonLayout(vkKeyboard);
+    vkKeyboard.jsonLayout.layoutData = builtInLayouts['ansi-104'];
+    return vkKeyboard;
+}
+
+describe('VkEventDispatcher legacy key codes', () => {
+    let target: HTMLInputElement;
+    let dispatcher: VkEventDispatcher;
+    let readback: LegacyReadback[];
+
+    beforeEach(() => {
+        target = document.createElement('input');
+        document.body.replaceChildren(target);
+        dispatcher = new VkEventDispatcher(createKeyboard(target));
+        readback = [];
+        // Read the members back as a legacy handler would
+        const listener = (event: KeyboardEvent) => {
+            const { type, key, keyCode, which, charCode } = event;
+            readback.push({ type, key, keyCode, which, charCode });
+        };
+        target.addEventListener('keydown', listener);
+        target.addEventListener('keypress', listener);
+        target.addEventListener('keyup', listener);
+    });
+
+    it('reports keyCode and which on keydown and keyup, and the character on keypress', () => {
+        dispatcher.keyDown('KeyA');
+        dispatcher.keyPress('KeyA');
+        dispatcher.keyUp('KeyA');
+        expect(readback).toEqual([
+            { type: 'keydown', key: 'a', keyCode: 65, which: 65, charCode: 0 },
+            { type: 'keypress', key: 'a', keyCode: 97, which: 97, charCode: 97 },
+            { type: 'keyup', key: 'a', keyCode: 65, which: 65, charCode: 0 },
+        ]);
+    });
+
+    it('reports the key code of keys without a character, with no keypress', () => {
+        dispatcher.keyDown('ArrowLeft');
+        dispatcher.keyPress('ArrowLeft');
+        dispatcher.keyUp('ArrowLeft');
+        expect(readback).toEqual([
+            { type: 'keydown', key: 'ArrowLeft', keyCode: 37, which: 37, charCode: 0 },
+            { type: 'keyup', key: 'ArrowLeft', keyCode: 37, which: 37, charCode: 0 },
+        ]);
+    });
+
+    it.each(['Enter', 'NumpadEnter'])('reports a keypress with code 13 for %s', (code) => {
+        dispatcher.keyDown(code);
+        dispatcher.keyPress(code);
+        dispatcher.keyUp(code);
+        expect(readback).toEqual([
+            { type: 'keydown', key: 'Enter', keyCode: 13, which: 13, charCode: 0 },
+            { type: 'keypress', key: 'Enter', keyCode: 13, which: 13, charCode: 13 },
+            { type: 'keyup', key: 'Enter', keyCode: 13, which: 13, charCode: 0 },
+        ]);
+    });
+
+    it('reports characters outside the BMP by their code point', () => {
+        dispatcher.keyPress('KeyA', '😀');
+        expect(readback).toEqual([
+            { type: 'keypress', key: '😀', keyCode: 0x1f600, which: 0x1f600, charCode: 0x1f600 },
+        ]);
+    });
+
+    it('dispatches one keypress per character of composed text', () => {
+        dispatcher.keyPress('KeyE', 'é😀');
+        expect(readback.map((event) => event.charCode)).toEqual([0xe9, 0x1f600]);
+    });
+});
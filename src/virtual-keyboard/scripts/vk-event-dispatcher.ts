@@ -1,9 +1,17 @@
-import { VkKeyboard } from './vk-keyboard';
+import type { VkKeyboard } from './vk-keyboard';
+import type { KeyItem } from './vk-json-layout';
+import type { VkKeyInfo } from './vk-sinks';
 
-interface VirtualKeyboardEvent extends KeyboardEvent {
+export interface VirtualKeyboardEvent extends KeyboardEvent {
     isVirtualKeyboardEvent: boolean;
 }
 
+interface LegacyKeyCodes {
+    keyCode: number;
+    which: number;
+    charCode: number;
+}
+
 export class VkEventDispatcher {
     constructor(vkKeyboard: VkKeyboard) {
         this.vkKeyboard = vkKeyboard;
@@ -14,149 +22,236 @@ export class VkEventDispatcher {
      * Get modifier states for keyboard events
      */
     private getModifierStates() {
+        // AltRight acting as AltGr is reported as AltGraph rather than Alt. Modifiers held
+        // on a mirrored physical keyboard apply as well.
+        const isAltGraph = this.vkKeyboard.jsonLayout.isAltGraphActive();
         return {
             shiftKey:
-                this.vkKeyboard.state.isKeyDown('ShiftLeft') ||
-                this.vkKeyboard.state.isKeyDown('ShiftRight'),
+                this.vkKeyboard.state.isModifierHeld('ShiftLeft') ||
+                this.vkKeyboard.state.isModifierHeld('ShiftRight'),
             ctrlKey:
-                this.vkKeyboard.state.isKeyDown('ControlLeft') ||
-                this.vkKeyboard.state.isKeyDown('ControlRight'),
+                this.vkKeyboard.state.isModifierHeld('ControlLeft') ||
+                this.vkKeyboard.state.isModifierHeld('ControlRight'),
             altKey:
-                this.vkKeyboard.state.isKeyDown('AltLeft') ||
-                this.vkKeyboard.state.isKeyDown('AltRight'),
+                this.vkKeyboard.state.isModifierHeld('AltLeft') ||
+                (this.vkKeyboard.state.isModifierHeld('AltRight') && !isAltGraph),
+            modifierAltGraph: isAltGraph,
             metaKey:
-                this.vkKeyboard.state.isKeyDown('MetaLeft') ||
-                this.vkKeyboard.state.isKeyDown('MetaRight'),
+                this.vkKeyboard.state.isModifierHeld('MetaLeft') ||
+                this.vkKeyboard.state.isModifierHeld('MetaRight'),
             capsLock: this.vkKeyboard.state.isToggleKeyActivated('CapsLock'),
             numLock: this.vkKeyboard.state.isToggleKeyActivated('NumLock'),
+            scrollLock: this.vkKeyboard.state.isToggleKeyActivated('ScrollLock'),
         };
     }
 
-    keyDown(code: string, repeat: boolean = false) {
-        const item = this.vkKeyboard.jsonLayout.getKeyItemByCode(code);
-        if (!item) return;
+    /**
+     * Create a virtual keyboard event whose legacy keyCode, which and charCode read back
+     * the given values. Browsers ignore these members of the init dictionary, so each one
+     * is read back as a legacy handler would and overridden on the event if it differs.
+     */
+    private createKeyboardEvent(type: string, init: KeyboardEventInit, legacy: LegacyKeyCodes) {
+        const event = new KeyboardEvent(type, { ...init, ...legacy });
+        for (const [name, value] of Object.entries(legacy)) {
+            if (event[name as keyof LegacyKeyCodes] !== value) {
+                Object.defineProperty(event, name, { get: () => value, configurable: true });
+            }
+        }
 
-        const activeElement = document.activeElement as HTMLElement;
-        const modifierStates = this.getModifierStates();
+        // Add a custom property to identify virtual keyboard events
+        (event as VirtualKeyboardEvent).isVirtualKeyboardEvent = true;
+        return event;
+    }
 
-        // Create and dispatch keyboard events
-        const keyDownEvent = new KeyboardEvent('keydown', {
+    /** The resolved key and modifier state, as passed to sinks and editing adapters. */
+    getKeyInfo(item: KeyItem, repeat: boolean): VkKeyInfo {
+        return {
             key: item.key,
             code: item.code,
             keyCode: item.keyCode,
-            which: item.keyCode,
             location: item.location,
-            bubbles: true,
-            cancelable: true,
-            composed: true,
-            view: window,
             repeat: repeat,
-            ...modifierStates,
-        });
+            ...this.getModifierStates(),
+        };
+    }
 
-        // Add a custom property to identify virtual keyboard events
-        (keyDownEvent as VirtualKeyboardEvent).isVirtualKeyboardEvent = true;
+    /**
+     * Dispatch keydown. Returns false when a handler cancelled it, suppressing the key's action.
+     * Pass `bypassIme` for keys the IME never sees, such as those forwarded by `<virtual-keyboard-ime>`.
+     */
+    keyDown(code: string, repeat: boolean = false, bypassIme: boolean = false): boolean {
+        const item = this.vkKeyboard.jsonLayout.getKeyItemByCode(code);
+        if (!item) return true;
+
+        const modifierStates = this.getModifierStates();
+        this.vkKeyboard.sinks.keyDown(code, this.getKeyInfo(item, repeat));
+        if (this.vkKeyboard.sinks.replacesDomEvents) return true;
+
+        const activeElement = this.vkKeyboard.getTargetElement();
+
+        // Keys taken by the IME are reported as "Process" with keyCode 229, like a native IME
+        const isProcessKey = !bypassIme && this.vkKeyboard.ime.consumesKey(code);
+        const key = isProcessKey ? 'Process' : item.key;
+        const keyCode = isProcessKey ? 229 : item.keyCode;
+
+        // Create and dispatch keyboard events
+        const keyDownEvent = this.createKeyboardEvent(
+            'keydown',
+            {
+                key: key,
+                code: item.code,
+                location: item.location,
+                bubbles: true,
+                cancelable: true,
+                composed: true,
+                view: window,
+                repeat: repeat,
+                isComposing: this.vkKeyboard.ime.isComposing,
+                ...modifierStates,
+            },
+            { keyCode: keyCode, which: keyCode, charCode: 0 }
+        );
 
-        activeElement.dispatchEvent(keyDownEvent);
+        return activeElement.dispatchEvent(keyDownEvent);
     }
 
-    keyPress(code: string) {
+    /**
+     * Dispatch keypress for the key's character (CR for Enter), or one keypress per character
+     * of `text` when it differs from the key (e.g. text produced by a dead key sequence).
+     * Keys without a character, such as the arrow keys, have no keypress.
+     * Returns false when a handler cancelled it, so that no text is inserted.
+     */
+    keyPress(code: string, text?: string): boolean {
         const item = this.vkKeyboard.jsonLayout.getKeyItemByCode(code);
-        if (!item) return;
+        if (!item) return true;
+
+        let notCancelled = true;
+        for (const char of text ?? this.getKeyPressText(item)) {
+            notCancelled = this.dispatchKeyPress(item, char) && notCancelled;
+        }
+        return notCancelled;
+    }
 
-        const activeElement = document.activeElement as HTMLElement;
+    private getKeyPressText(item: KeyItem) {
+        if (item.key === 'Enter') return '\r';
+        return Array.from(item.key).length === 1 ? item.key : '';
+    }
+
+    private dispatchKeyPress(item: KeyItem, char: string): boolean {
         const modifierStates = this.getModifierStates();
 
-        // For keypress event, use ASCII character code instead of physical key code
-        const keyAsciiCode = item.key.charCodeAt(0);
+        // For keypress event, use the character's code point instead of physical key code,
+        // so that characters outside the BMP are not reported as a lone surrogate
+        const charCode = char.codePointAt(0)!;
 
-        // Create and dispatch keyboard events
-        const keyPressEvent = new KeyboardEvent('keypress', {
-            key: item.key,
+        // Enter reports its key name along with the CR character code
+        const key = char === '\r' ? 'Enter' : char;
+
+        this.vkKeyboard.sinks.keyPress(item.code, {
+            key: key,
             code: item.code,
-            keyCode: keyAsciiCode,
-            which: keyAsciiCode,
+            keyCode: charCode,
             location: item.location,
-            bubbles: true,
-            cancelable: true,
-            composed: true,
-            view: window,
+            repeat: this.vkKeyboard.state.isKeyRepeating(item.code),
             ...modifierStates,
         });
+        if (this.vkKeyboard.sinks.replacesDomEvents) return true;
 
-        // Add a custom property to identify virtual keyboard events
-        (keyPressEvent as VirtualKeyboardEvent).isVirtualKeyboardEvent = true;
+        const activeElement = this.vkKeyboard.getTargetElement();
+
+        // Create and dispatch keyboard events
+        const keyPressEvent = this.createKeyboardEvent(
+            'keypress',
+            {
+                key: key,
+                code: item.code,
+                location: item.location,
+                bubbles: true,
+                cancelable: true,
+                composed: true,
+                view: window,
+                ...modifierStates,
+            },
+            { keyCode: charCode, which: charCode, charCode: charCode }
+        );
 
-        activeElement.dispatchEvent(keyPressEvent);
+        return activeElement.dispatchEvent(keyPressEvent);
     }
 
     keyUp(code: string) {
         const item = this.vkKeyboard.jsonLayout.getKeyItemByCode(code);
         if (!item) return;
 
-        const activeElement = document.activeElement as HTMLElement;
         const modifierStates = this.getModifierStates();
+        this.vkKeyboard.sinks.keyUp(code, this.getKeyInfo(item, false));
+        if (this.vkKeyboard.sinks.replacesDomEvents) return;
+
+        const activeElement = this.vkKeyboard.getTargetElement();
 
         // Create and dispatch keyboard events
-        const keyUpEvent = new KeyboardEvent('keyup', {
-            key: item.key,
-            code: item.code,
-            keyCode: item.keyCode,
-            which: item.keyCode,
-            location: item.location,
+        const keyUpEvent = this.createKeyboardEvent(
+            'keyup',
+            {
+                key: item.key,
+                code: item.code,
+                location: item.location,
+                bubbles: true,
+                cancelable: true,
+                composed: true,
+                view: window,
+                isComposing: this.vkKeyboard.ime.isComposing,
+                ...modifierStates,
+            },
+            { keyCode: item.keyCode, which: item.keyCode, charCode: 0 }
+        );
+
+        activeElement.dispatchEvent(keyUpEvent);
+    }
+
+    /** Dispatch a composition event for text being composed by the IME. */
+    composition(type: 'compositionstart' | 'compositionupdate' | 'compositionend', data: string) {
+        if (this.vkKeyboard.sinks.replacesDomEvents || !this.vkKeyboard.editing.isEditable()) {
+            return;
+        }
+        const compositionEvent = new CompositionEvent(type, {
+            data: data,
             bubbles: true,
             cancelable: true,
             composed: true,
             view: window,
-            ...modifierStates,
         });
-
-        // Add a custom property to identify virtual keyboard events
-        (keyUpEvent as VirtualKeyboardEvent).isVirtualKeyboardEvent = true;
-
-        activeElement.dispatchEvent(keyUpEvent);
+        this.vkKeyboard.getTargetElement().dispatchEvent(compositionEvent);
     }
 
-    input(code: string) {
-        if (this.vkKeyboard.editing.isEditable()) {
-            const keyItem = this.vkKeyboard.jsonLayout.getKeyItemByCode(code);
-            let inputType: string;
-            let data: string | null = null;
-
-            if (code === 'Backspace') {
-                inputType = 'deleteContentBackward';
-            } else if (code === 'Delete') {
-                inputType = 'deleteContentForward';
-            } else if (code === 'Enter' || code === 'NumpadEnter') {
-                inputType = 'insertLineBreak';
-                data = '\n';
-            } else if (code === 'Tab') {
-                inputType = 'insertText';
-                data = '\t';
-            } else if (keyItem && this.isPrintableCharacter(keyItem.key)) {
-                inputType = 'insertText';
-                data = keyItem.key;
-            } else {
-                // For non-printable characters, don't dispatch input event
-                return;
-            }
-
-            const inputEvent = new InputEvent('input', {
-                inputType: inputType,
-                data: data,
-                bubbles: true,
-                cancelable: true,
-                composed: true,
-                view: window,
-            });
-
-            const activeElement = document.activeElement as HTMLElement;
-            activeElement.dispatchEvent(inputEvent);
-        }
+    /**
+     * Dispatch the cancelable beforeinput event ahead of an edit. Returns false when a
+     * handler cancelled it, in which case the edit must not be made. Composition text
+     * cannot be cancelled, as with a native IME.
+     */
+    beforeInput(inputType: string, data: string | null, isComposing = false) {
+        const beforeInputEvent = new InputEvent('beforeinput', {
+            inputType: inputType,
+            data: data,
+            isComposing: isComposing,
+            bubbles: true,
+            cancelable: !isComposing,
+            composed: true,
+            view: window,
+        });
+        return this.vkKeyboard.getTargetElement().dispatchEvent(beforeInputEvent);
     }
 
-    private isPrintableCharacter(key: string): boolean {
-        // Check if the character is printable (has visible representation)
-        return key.length === 1 && key.match(/[\x20-\x7E\xA0-\xFF]/) !== null;
+    /** Dispatch the input event after an edit. */
+    input(inputType: string, data: string | null, isComposing = false) {
+        const inputEvent = new InputEvent('input', {
+            inputType: inputType,
+            data: data,
+            isComposing: isComposing,
+            bubbles: true,
+            cancelable: false,
+            composed: true,
+            view: window,
+        });
+        this.vkKeyboard.getTargetElement().dispatchEvent(inputEvent);
     }
 }
@@ -0,0 +1,178 @@
+// vk-ime-bridge.ts
+import type { VkKeyboard } from './vk-keyboard';
+import type { Keystroke } from './vk-typing';
+
+/**
+ * `<virtual-keyboard-ime>`: an input that takes text from the device's own keyboard (swipe
+ * typing, autocorrect, IME composition) and forwards it to a `<virtual-keyboard>`'s target
+ * as PC key events on its active layout. Deletions are sent as Backspace.
+ */
+export class VkImeBridge extends HTMLElement {
+    private _keyboard: VkKeyboard | null = null;
+    private input: HTMLInputElement | null = null;
+    private composing = false;
+    // Input value as already forwarded; the next value is diffed against it
+    private forwardedText = '';
+
+    constructor() {
+        super();
+    }
+
+    /**
+     * Keyboard whose layout and target are used. Takes precedence over the `keyboard`
+     * attribute (its id); when neither is set, the first `<virtual-keyboard>` in the document.
+     */
+    get keyboard(): VkKeyboard | null {
+        if (this._keyboard) {
+            return this._keyboard;
+        }
+        const root = this.getRootNode() as Document | ShadowRoot;
+        const keyboardId = this.getAttribute('keyboard');
+        const keyboard = keyboardId
+            ? root.getElementById(keyboardId)
+            : root.querySelector('virtual-keyboard');
+        return keyboard as VkKeyboard | null;
+    }
+
+    set keyboard(value: VkKeyboard | null) {
+        this._keyboard = value;
+    }
+
+    /** Focus the input, which opens the native keyboard. */
+    focus(options?: FocusOptions) {
+        this.input?.focus(options);
+    }
+
+    connectedCallback() {
+        if (this.input) return;
+        const input = document.createElement('input');
+        input.className = 'vk-ime-input';
+        input.type = 'text';
+        input.setAttribute('aria-label', this.getAttribute('aria-label') ?? 'Type text');
+        input.addEventListener('keydown', this.handleKeyDown);
+        input.addEventListener('beforeinput', this.handleBeforeInput);
+        input.addEventListener('input', this.handleInput);
+        input.addEventListener('compositionstart', this.handleCompositionStart);
+        input.addEventListener('compositionend', this.handleCompositionEnd);
+        input.addEventListener('blur', this.handleBlur);
+        this.appendChild(input);
+        this.input = input;
+    }
+
+    disconnectedCallback() {
+        this.input?.remove();
+        this.input = null;
+        this.composing = false;
+        this.forwardedText = '';
+    }
+
+    // A single-line input fires no beforeinput for Enter, so forward its keydown instead.
+    // Enter that commits a composition belongs to the IME.
+    private handleKeyDown = (event: KeyboardEvent) => {
+        if (!event.isTrusted || event.key !== 'Enter' || event.isComposing || this.composing) {
+            return;
+        }
+        event.preventDefault();
+        this.sendKey('Enter');
+        this.reset();
+    };
+
+    private handleBeforeInput = (event: InputEvent) => {
+        if (event.inputType === 'insertLineBreak' || event.inputType === 'insertParagraph') {
+            event.preventDefault();
+            this.sendKey('Enter');
+            this.reset();
+        } else if (this.input?.value === '' && event.inputType.startsWith('delete')) {
+            // Deleting from an empty field fires no input event, so forward it here
+            event.preventDefault();
+            this.sendKey(event.inputType.endsWith('Forward') ? 'Delete' : 'Backspace');
+        }
+    };
+
+    private handleInput = (event: Event) => {
+        // Text being composed is forwarded once it is committed
+        if (this.composing || (event as InputEvent).isComposing) return;
+        this.forwardChanges();
+    };
+
+    private handleCompositionStart = () => {
+        this.composing = true;
+    };
+
+    private handleCompositionEnd = () => {
+        this.composing = false;
+        this.forwardChanges();
+    };
+
+    private handleBlur = () => {
+        this.composing = false;
+        this.reset();
+    };
+
+    private reset() {
+        if (this.input) this.input.value = '';
+        this.forwardedText = '';
+    }
+
+    // Send the difference between the forwarded and the current value: Backspace for each
+    // character after their common prefix, then the new text. This covers typing, deleting
+    // and autocorrect replacing a word alike.
+    private forwardChanges() {
+        const keyboard = this.keyboard;
+        if (!keyboard || !this.input) return;
+        const previous = Array.from(this.forwardedText);
+        const current = Array.from(this.input.value);
+        let prefixLength = 0;
+        while (
+            prefixLength < previous.length &&
+            prefixLength < current.length &&
+            previous[prefixLength] === current[prefixLength]
+        ) {
+            prefixLength++;
+        }
+        this.forwardedText = this.input.value;
+
+        // Latched virtual modifiers would change the typed characters
+        keyboard.userOperation.releaseAllKeys();
+        for (let i = prefixLength; i < previous.length; i++) {
+            this.sendKey('Backspace');
+        }
+        for (const character of current.slice(prefixLength)) {
+            const keystrokes = keyboard.typing.getKeystrokes(character);
+            if (!keystrokes) continue;
+            keystrokes.forEach((keystroke) => this.sendKeystroke(keyboard, keystroke));
+        }
+    }
+
+    private sendKey(code: string) {
+        const keyboard = this.keyboard;
+        if (!keyboard) return;
+        this.sendKeystroke(keyboard, { code, shift: false, altGr: false });
+    }
+
+    // Press and release a key with its modifiers through the event dispatcher only, so the
+    // keys reach the keyboard's target without touching the virtual keys. The text is already
+    // composed, so the keyboard's kana IME must not report the keys as "Process".
+    private sendKeystroke(keyboard: VkKeyboard, keystroke: Keystroke) {
+        const { state, eventDispatcher, jsonLayout } = keyboard;
+        const modifiers = keyboard.typing.getModifierCodes(keystroke);
+        for (const modifier of modifiers) {
+            state.keyDown(modifier);
+            eventDispatcher.keyDown(modifier, false, true);
+        }
+        eventDispatcher.keyDown(keystroke.code, false, true);
+        // Dead keys produce no character of their own; the guest combines them
+        const isDeadKey = jsonLayout.getKeyItemByCode(keystroke.code)?.deadKey !== undefined;
+        const isEnter = jsonLayout.getKeyItemByCode(keystroke.code)?.key === 'Enter';
+        if ((jsonLayout.isPrintableKey(keystroke.code) && !isDeadKey) || isEnter) {
+            eventDispatcher.keyPress(keystroke.code);
+        }
+        eventDispatcher.keyUp(keystroke.code);
+        for (const modifier of modifiers.reverse()) {
+            state.keyUp(modifier);
+            eventDispatcher.keyUp(modifier);
+        }
+    }
+}
+
+customElements.define('virtual-keyboard-ime', VkImeBridge);
@@ -0,0 +1,325 @@
+import type { VkKeyboard } from './vk-keyboard';
+
+/** Turns typed characters into the text shown and committed by the IME. */
+export interface ImeConverter {
+    /**
+     * Reading shown for the characters typed so far. `final` is true when the composition
+     * is converted or committed, so that pending input (e.g. a trailing "n") is resolved.
+     */
+    toReading(input: string, final: boolean): string;
+    /** Conversion candidates for a reading, best first; the Convert key cycles through them. */
+    getCandidates(reading: string): string[];
+}
+
+// Build romaji syllables from a consonant and the kana of its row, in a-i-u-e-o order;
+// '・' marks a vowel the row doesn't have, e.g. kanaRow('y', 'や・ゆ・よ')
+function kanaRow(consonant: string, kana: string): Record<string, string> {
+    const row: Record<string, string> = {};
+    Array.from(kana).forEach((char, index) => {
+        if (char !== '・') row[consonant + 'aiueo'[index]] = char;
+    });
+    return row;
+}
+
+// Contracted syllables such as "kya" -> "きゃ", from the i-column kana; empty for the
+// small ya/yu/yo on their own
+function contractedRow(consonant: string, kana: string): Record<string, string> {
+    return {
+        [consonant + 'a']: kana + 'ゃ',
+        [consonant + 'u']: kana + 'ゅ',
+        [consonant + 'o']: kana + 'ょ',
+    };
+}
+
+// Romaji syllables to hiragana, in Hepburn and Kunrei spellings
+const romajiTable: Record<string, string> = {
+    ...kanaRow('', 'あいうえお'),
+    ...kanaRow('k', 'かきくけこ'),
+    ...kanaRow('s', 'さしすせそ'),
+    ...kanaRow('t', 'たちつてと'),
+    ...kanaRow('n', 'なにぬねの'),
+    ...kanaRow('h', 'はひふへほ'),
+    ...kanaRow('m', 'まみむめも'),
+    ...kanaRow('y', 'や・ゆ・よ'),
+    ...kanaRow('r', 'らりるれろ'),
+    ...kanaRow('w', 'わ・・・を'),
+    ...kanaRow('g', 'がぎぐげご'),
+    ...kanaRow('z', 'ざじずぜぞ'),
+    ...kanaRow('d', 'だぢづでど'),
+    ...kanaRow('b', 'ばびぶべぼ'),
+    ...kanaRow('p', 'ぱぴぷぺぽ'),
+    ...kanaRow('x', 'ぁぃぅぇぉ'),
+    ...kanaRow('l', 'ぁぃぅぇぉ'),
+    ...contractedRow('ky', 'き'),
+    ...contractedRow('sy', 'し'),
+    ...contractedRow('sh', 'し'),
+    ...contractedRow('ty', 'ち'),
+    ...contractedRow('ch', 'ち'),
+    ...contractedRow('ny', 'に'),
+    ...contractedRow('hy', 'ひ'),
+    ...contractedRow('my', 'み'),
+    ...contractedRow('ry', 'り'),
+    ...contractedRow('gy', 'ぎ'),
+    ...contractedRow('zy', 'じ'),
+    ...contractedRow('j', 'じ'),
+    ...contractedRow('by', 'び'),
+    ...contractedRow('py', 'ぴ'),
+    ...contractedRow('xy', ''),
+    ...contractedRow('ly', ''),
+    shi: 'し',
+    chi: 'ち',
+    tsu: 'つ',
+    fa: 'ふぁ',
+    fi: 'ふぃ',
+    fu: 'ふ',
+    fe: 'ふぇ',
+    fo: 'ふぉ',
+    ji: 'じ',
+    she: 'しぇ',
+    che: 'ちぇ',
+    je: 'じぇ',
+    xtu: 'っ',
+    ltu: 'っ',
+    nn: 'ん',
+    "n'": 'ん',
+    '-': 'ー',
+    ',': '、',
+    '.': '。',
+    '[': '「',
+    ']': '」',
+};
+
+function toKatakana(text: string) {
+    // Hiragana U+3041-U+3096 map to katakana 0x60 code points higher
+    return text.replace(/[ぁ-ゖ]/g, (c) => String.fromCharCode(c.charCodeAt(0) + 0x60));
+}
+
+/** Romaji-to-kana conversion, offering the hiragana and katakana spelling as candidates. */
+export const romajiConverter: ImeConverter = {
+    toReading(input, final) {
+        const romaji = input.toLowerCase();
+        let reading = '';
+        let i = 0;
+        while (i < romaji.length) {
+            const char = romaji[i];
+            const next = romaji[i + 1];
+            // A doubled consonant is a small tsu, e.g. "tte" -> "って"
+            if (next === char && /[bcdfghjkmpqrstvwxyz]/.test(char)) {
+                reading += 'っ';
+                i++;
+                continue;
+            }
+            // "n" before a consonant other than "y" is ん
+            if (char === 'n' && next !== undefined && /[^aiueony']/.test(next)) {
+                reading += 'ん';
+                i++;
+                continue;
+            }
+            const length = [3, 2, 1].find((n) => romajiTable[romaji.slice(i, i + n)]);
+            if (length) {
+                reading += romajiTable[romaji.slice(i, i + length)];
+                i += length;
+            } else if (char === 'n' && next === undefined && final) {
+                reading += 'ん';
+                i++;
+            } else {
+                // Incomplete syllables stay as typed until more keys follow
+                reading += input[i];
+                i++;
+            }
+        }
+        return reading;
+    },
+    getCandidates(reading) {
+        const katakana = toKatakana(reading);
+        return katakana === reading ? [reading] : [reading, katakana];
+    },
+};
+
+// Keys that switch the IME on and off on the JIS layout
+const imeKeys = ['KanaMode', 'Convert', 'NonConvert'];
+
+export class VkIme {
+    constructor(vkKeyboard: VkKeyboard) {
+        this.vkKeyboard = vkKeyboard;
+    }
+    vkKeyboard!: VkKeyboard;
+
+    converter: ImeConverter = romajiConverter;
+    active = false;
+    // Characters typed since the composition started
+    private input = '';
+    // Candidates after Convert was pressed, or null while showing the reading
+    private candidates: string[] | null = null;
+    private candidateIndex = 0;
+
+    get isComposing() {
+        return this.input !== '';
+    }
+
+    // The IME is only available on layouts that have its keys, such as jis-109
+    private isAvailable() {
+        const keys = this.vkKeyboard.jsonLayout.layoutData?.keys || {};
+        return imeKeys.some((code) => code in keys);
+    }
+
+    // A key that adds a character to the composition
+    private isCompositionKey(code: string) {
+        const jsonLayout = this.vkKeyboard.jsonLayout;
+        const keyItem = jsonLayout.getKeyItemByCode(code);
+        return (
+            !!keyItem &&
+            code !== 'Space' &&
+            keyItem.deadKey === undefined &&
+            jsonLayout.isPrintableKey(code) &&
+            !this.vkKeyboard.state.hasShortcutModifierPressed(code)
+        );
+    }
+
+    /** Whether the IME takes this key press, so its keydown is reported as "Process". */
+    consumesKey(code: string) {
+        if (!this.active || !this.isAvailable()) return false;
+        return this.isComposing || this.isCompositionKey(code);
+    }
+
+    /** Feed a key press to the IME. Returns true when it was consumed. */
+    processKey(code: string): boolean {
+        if (!this.isAvailable()) return false;
+
+        if (!this.isComposing) {
+            if (imeKeys.includes(code)) {
+                this.setActive(code === 'KanaMode' ? !this.active : code === 'Convert');
+                return true;
+            }
+            if (!this.active || !this.isCompositionKey(code)) return false;
+            this.vkKeyboard.eventDispatcher.composition('compositionstart', '');
+            this.appendKey(code);
+            return true;
+        }
+
+        switch (code) {
+            case 'Space':
+            case 'Convert':
+                this.convert();
+                return true;
+            case 'NonConvert':
+                // Back to the unconverted reading
+                this.candidates = null;
+                this.update();
+                return true;
+            case 'Backspace':
+                this.input = Array.from(this.input).slice(0, -1).join('');
+                this.candidates = null;
+                if (this.isComposing) {
+                    this.update();
+                } else {
+                    this.finish('');
+                }
+                return true;
+            case 'Escape':
+                this.cancel();
+                return true;
+            case 'Enter':
+            case 'NumpadEnter':
+                this.commit(code);
+                return true;
+            case 'KanaMode':
+                this.commit(code);
+                this.setActive(false);
+                return true;
+        }
+
+        if (this.isCompositionKey(code)) {
+            // Typing on after a conversion commits it and starts a new composition
+            if (this.candidates) {
+                this.commit(code);
+                this.vkKeyboard.eventDispatcher.composition('compositionstart', '');
+            }
+            this.appendKey(code);
+            return true;
+        }
+        // Any other key commits the composition and then acts as usual
+        this.commit(code);
+        return false;
+    }
+
+    /**
+     * Commit the pending text, if any. A target that is not editable, such as a canvas or
+     * output sinks, gets the text as keypresses of `code`, the key that committed it.
+     */
+    commit(code: string) {
+        if (!this.isComposing) return;
+        const text = this.getText(true);
+        this.vkKeyboard.eventDispatcher.composition('compositionupdate', text);
+        if (this.vkKeyboard.editing.isEditable()) {
+            this.vkKeyboard.editing.commitComposition(text);
+        } else {
+            // Its keydowns were reported as "Process", so the text would be lost otherwise
+            this.vkKeyboard.eventDispatcher.keyPress(code, text);
+        }
+        this.finish(text);
+    }
+
+    /** Discard the pending text, if any. */
+    cancel() {
+        if (!this.isComposing) return;
+        this.finish('');
+    }
+
+    setActive(active: boolean) {
+        this.active = active;
+        this.syncVisual();
+    }
+
+    // Show the IME state on the KanaMode key and the pending text in the candidate strip
+    syncVisual() {
+        this.vkKeyboard.visual.imeActive(this.active);
+        if (this.isComposing) {
+            this.vkKeyboard.visual.showComposition(
+                this.getText(false),
+                this.candidates,
+                this.candidateIndex
+            );
+        } else {
+            this.vkKeyboard.visual.hideComposition();
+        }
+    }
+
+    private appendKey(code: string) {
+        this.input += this.vkKeyboard.jsonLayout.getKeyItemByCode(code)!.key;
+        this.candidates = null;
+        this.update();
+    }
+
+    private convert() {
+        if (this.candidates) {
+            this.candidateIndex = (this.candidateIndex + 1) % this.candidates.length;
+        } else {
+            const candidates = this.converter.getCandidates(
+                this.converter.toReading(this.input, true)
+            );
+            this.candidates = candidates.length > 0 ? candidates : null;
+            this.candidateIndex = 0;
+        }
+        this.update();
+    }
+
+    private getText(final: boolean) {
+        return this.candidates
+            ? this.candidates[this.candidateIndex]
+            : this.converter.toReading(this.input, final);
+    }
+
+    private update() {
+        this.vkKeyboard.eventDispatcher.composition('compositionupdate', this.getText(false));
+        this.syncVisual();
+    }
+
+    private finish(data: string) {
+        this.input = '';
+        this.candidates = null;
+        this.candidateIndex = 0;
+        this.vkKeyboard.eventDispatcher.composition('compositionend', data);
+        this.syncVisual();
+    }
+}
@@ -18,8 +18,42 @@ export interface LayoutData {
     locations: Record<string, number>;
     shifted: { keys: Record<string, string> };
     numLocked: { keys: Record<string, string> };
+    /** Third level, selected by holding AltRight (AltGr). */
+    altGr?: { keys: Record<string, string> };
+    /** Fourth level, selected by holding Shift and AltRight (AltGr). */
+    shiftAltGr?: { keys: Record<string, string> };
+    /**
+     * Dead keys, by the character a key produces on its current level. Each maps the
+     * following character to the combined one, e.g. `{ "'": { "e": "é" } }`.
+     */
+    deadKeys?: Record<string, Record<string, string>>;
+    /** Compose key code and the character sequences it turns into single characters. */
+    compose?: { key: string; sequences: Record<string, string> };
     modifierKeys: string[];
     toggleKeys: string[];
+    /** Keys that do not auto-repeat while held. */
+    noRepeatKeys?: string[];
+    /** Non-rectangular keys, rendered with a `vk-key-<shape>` class (e.g. `iso-enter`). */
+    shapes?: Record<string, string>;
+}
+
+/** A key resolved against the active layout and modifier state. */
+export interface KeyItem {
+    key: string;
+    code: string;
+    keyCode: number;
+    location: number;
+    /** The character a dead key stands for; `key` is then "Dead". */
+    deadKey?: string;
+}
+
+/** A layout given either as a URL to a JSON document or as an inline object. */
+export type LayoutSource = string | LayoutData;
+
+/** Detail of the `vk-layout-error` event fired when a layout cannot be loaded. */
+export interface LayoutErrorDetail {
+    source: LayoutSource;
+    error: Error;
 }
 
 // Define the layout data directly in TypeScript for better compatibility
@@ -370,7 +404,7 @@ const layoutTemplate = {
         NumpadMultiply: 106,
         NumpadSubtract: 109,
         NumpadAdd: 107,
-        NumpadEnter: 108,
+        NumpadEnter: 13,
         Numpad0: 96,
         Numpad1: 97,
         Numpad2: 98,
@@ -415,7 +449,7 @@ const layoutTemplate = {
         PageDown: 'PgDn',
         NumLock: 'NumLk',
         CapsLock: 'Caps',
-        Space: '&nbsp;',
+        Space: '\u00a0',
         ShiftLeft: 'Shift',
         ShiftRight: 'Shift',
         ControlLeft: 'Ctrl',
@@ -634,20 +668,554 @@ const layoutTemplate = {
         'Digit8',
         'Digit9',
     ],
-    toggleKeys: ['CapsLock', 'NumLock'],
+    toggleKeys: ['CapsLock', 'NumLock', 'ScrollLock'],
+    noRepeatKeys: [
+        'Escape',
+        'Enter',
+        'NumpadEnter',
+        'F1',
+        'F2',
+        'F3',
+        'F4',
+        'F5',
+        'F6',
+        'F7',
+        'F8',
+        'F9',
+        'F10',
+        'F11',
+        'F12',
+        'PrintScreen',
+        'ScrollLock',
+        'Pause',
+    ],
+};
+
+function withoutKeys(record: Record<string, string>, codes: string[]): Record<string, string> {
+    return Object.fromEntries(Object.entries(record).filter(([code]) => !codes.includes(code)));
+}
+
+// ISO 105-key board with UK English key values: the extra IntlBackslash key next to the
+// left Shift, and the Backslash key moved under the L-shaped Enter as "#~"
+const iso105Layout: LayoutData = {
+    ...(layoutTemplate as LayoutData),
+    name: 'iso105',
+    lang: 'en-GB',
+    areas: [
+        {
+            name: 'main',
+            rows: [
+                layoutTemplate.areas[0].rows[0],
+                layoutTemplate.areas[0].rows[1],
+                [
+                    'Tab',
+                    'KeyQ',
+                    'KeyW',
+                    'KeyE',
+                    'KeyR',
+                    'KeyT',
+                    'KeyY',
+                    'KeyU',
+                    'KeyI',
+                    'KeyO',
+                    'KeyP',
+                    'BracketLeft',
+                    'BracketRight',
+                    'Enter',
+                ],
+                [
+                    'CapsLock',
+                    'KeyA',
+                    'KeyS',
+                    'KeyD',
+                    'KeyF',
+                    'KeyG',
+                    'KeyH',
+                    'KeyJ',
+                    'KeyK',
+                    'KeyL',
+                    'Semicolon',
+                    'Quote',
+                    'Backslash',
+                    '__placeholder__',
+                ],
+                [
+                    'ShiftLeft',
+                    'IntlBackslash',
+                    'KeyZ',
+                    'KeyX',
+                    'KeyC',
+                    'KeyV',
+                    'KeyB',
+                    'KeyN',
+                    'KeyM',
+                    'Comma',
+                    'Period',
+                    'Slash',
+                    'ShiftRight',
+                ],
+                layoutTemplate.areas[0].rows[5],
+            ],
+        },
+        layoutTemplate.areas[1],
+        layoutTemplate.areas[2],
+    ],
+    keys: {
+        ...layoutTemplate.keys,
+        Backslash: '#',
+        IntlBackslash: '\\',
+        AltRight: 'AltGraph',
+    },
+    keyCodes: {
+        ...layoutTemplate.keyCodes,
+        Backquote: 223,
+        Quote: 192,
+        Backslash: 222,
+        IntlBackslash: 220,
+    },
+    labels: {
+        ...layoutTemplate.labels,
+        Backslash: '#',
+        IntlBackslash: '\\',
+        AltRight: 'AltGr',
+    },
+    locations: {
+        ...layoutTemplate.locations,
+        IntlBackslash: 0,
+    },
+    shifted: {
+        keys: {
+            ...layoutTemplate.shifted.keys,
+            Backquote: '¬',
+            Digit2: '"',
+            Digit3: '£',
+            Quote: '@',
+            Backslash: '~',
+            IntlBackslash: '|',
+        },
+    },
+    altGr: {
+        keys: {
+            Backquote: '¦',
+            Digit4: '€',
+        },
+    },
+    shapes: { Enter: 'iso-enter' },
+};
+
+// JIS 109-key board with Japanese key values (kana input off): IntlYen and IntlRo,
+// the IME keys around Space and the L-shaped Enter
+const jis109Layout: LayoutData = {
+    ...(layoutTemplate as LayoutData),
+    name: 'jis109',
+    lang: 'ja-JP',
+    areas: [
+        {
+            name: 'main',
+            rows: [
+                layoutTemplate.areas[0].rows[0],
+                [
+                    'Backquote',
+                    'Digit1',
+                    'Digit2',
+                    'Digit3',
+                    'Digit4',
+                    'Digit5',
+                    'Digit6',
+                    'Digit7',
+                    'Digit8',
+                    'Digit9',
+                    'Digit0',
+                    'Minus',
+                    'Equal',
+                    'IntlYen',
+                    'Backspace',
+                ],
+                iso105Layout.areas[0].rows[2],
+                iso105Layout.areas[0].rows[3],
+                [
+                    'ShiftLeft',
+                    'KeyZ',
+                    'KeyX',
+                    'KeyC',
+                    'KeyV',
+                    'KeyB',
+                    'KeyN',
+                    'KeyM',
+                    'Comma',
+                    'Period',
+                    'Slash',
+                    'IntlRo',
+                    'ShiftRight',
+                ],
+                [
+                    'ControlLeft',
+                    'MetaLeft',
+                    'AltLeft',
+                    'NonConvert',
+                    'Space',
+                    'Convert',
+                    'KanaMode',
+                    'AltRight',
+                    'WakeUp',
+                    'ContextMenu',
+                    'ControlRight',
+                ],
+            ],
+        },
+        layoutTemplate.areas[1],
+        layoutTemplate.areas[2],
+    ],
+    keys: {
+        ...layoutTemplate.keys,
+        Backquote: 'ZenkakuHankaku',
+        Equal: '^',
+        IntlYen: '\\',
+        BracketLeft: '@',
+        BracketRight: '[',
+        Semicolon: ';',
+        Quote: ':',
+        Backslash: ']',
+        IntlRo: '\\',
+        NonConvert: 'NonConvert',
+        Convert: 'Convert',
+        KanaMode: 'KanaMode',
+    },
+    keyCodes: {
+        ...layoutTemplate.keyCodes,
+        Backquote: 243,
+        Equal: 222,
+        IntlYen: 220,
+        BracketLeft: 192,
+        BracketRight: 219,
+        Semicolon: 187,
+        Quote: 186,
+        Backslash: 221,
+        IntlRo: 226,
+        NonConvert: 29,
+        Convert: 28,
+        KanaMode: 242,
+    },
+    labels: {
+        ...layoutTemplate.labels,
+        Backquote: '半/全',
+        CapsLock: '英数',
+        Equal: '^',
+        IntlYen: '¥',
+        BracketLeft: '@',
+        BracketRight: '[',
+        Quote: ':',
+        Backslash: ']',
+        IntlRo: '\\',
+        NonConvert: '無変換',
+        Convert: '変換',
+        KanaMode: 'カナ',
+    },
+    locations: {
+        ...layoutTemplate.locations,
+        IntlYen: 0,
+        IntlRo: 0,
+        NonConvert: 0,
+        Convert: 0,
+        KanaMode: 0,
+    },
+    shifted: {
+        keys: {
+            ...withoutKeys(layoutTemplate.shifted.keys, ['Digit0', 'Backquote']),
+            Digit2: '"',
+            Digit6: '&',
+            Digit7: "'",
+            Digit8: '(',
+            Digit9: ')',
+            Minus: '=',
+            Equal: '~',
+            IntlYen: '|',
+            BracketLeft: '`',
+            BracketRight: '{',
+            Semicolon: '+',
+            Quote: '*',
+            Backslash: '}',
+            IntlRo: '_',
+        },
+    },
+    shapes: { Enter: 'iso-enter' },
+    // These keys switch kana input on and off rather than acting on repeat
+    noRepeatKeys: [...layoutTemplate.noRepeatKeys, 'KanaMode', 'NonConvert'],
+};
+
+// Build a dead key table from pairs of base and combined letters, e.g. 'aáeé'
+function deadKeyTable(pairs: string): Record<string, string> {
+    const table: Record<string, string> = {};
+    const chars = Array.from(pairs);
+    for (let i = 0; i < chars.length; i += 2) {
+        table[chars[i]] = chars[i + 1];
+        table[chars[i].toUpperCase()] = chars[i + 1].toUpperCase();
+    }
+    return table;
+}
+
+// ANSI board with US-International dead keys and a Compose key in place of Menu
+const usIntlLayout: LayoutData = {
+    ...(layoutTemplate as LayoutData),
+    name: 'usIntl',
+    keys: {
+        ...layoutTemplate.keys,
+        ContextMenu: 'Compose',
+    },
+    labels: {
+        ...layoutTemplate.labels,
+        ContextMenu: 'Compose',
+    },
+    deadKeys: {
+        "'": deadKeyTable('aáeéiíoóuúyýcç'),
+        '"': deadKeyTable('aäeëiïoöuüyÿ'),
+        '`': deadKeyTable('aàeèiìoòuù'),
+        '~': deadKeyTable('aãoõnñ'),
+        '^': deadKeyTable('aâeêiîoôuû'),
+    },
+    compose: {
+        key: 'ContextMenu',
+        sequences: {
+            'a"': 'ä',
+            'e"': 'ë',
+            'i"': 'ï',
+            'o"': 'ö',
+            'u"': 'ü',
+            'A"': 'Ä',
+            'O"': 'Ö',
+            'U"': 'Ü',
+            "a'": 'á',
+            "e'": 'é',
+            "i'": 'í',
+            "o'": 'ó',
+            "u'": 'ú',
+            'a`': 'à',
+            'e`': 'è',
+            'c,': 'ç',
+            'C,': 'Ç',
+            'n~': 'ñ',
+            'N~': 'Ñ',
+            'a*': 'å',
+            'A*': 'Å',
+            'o/': 'ø',
+            'O/': 'Ø',
+            ae: 'æ',
+            AE: 'Æ',
+            oe: 'œ',
+            OE: 'Œ',
+            ss: 'ß',
+            'L-': '£',
+            'Y=': '¥',
+            'C=': '€',
+            'E=': '€',
+            co: '©',
+            ro: '®',
+            '<<': '«',
+            '>>': '»',
+            '!!': '¡',
+            '??': '¿',
+            '+-': '±',
+            '^2': '²',
+            '^3': '³',
+        },
+    },
 };
 
+/** Layouts that ship with the package, selectable by name through the `layout` attribute. */
+export const builtInLayouts: Record<string, LayoutData> = {
+    'ansi-104': layoutTemplate as LayoutData,
+    'us-intl': usIntlLayout,
+    'iso-105': iso105Layout,
+    'jis-109': jis109Layout,
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+// Key codes end up in markup and selectors, so only plain identifiers such as `KeyA` are allowed
+function isKeyCode(value: string) {
+    return /^[A-Za-z][A-Za-z0-9]*$/.test(value);
+}
+
+function isRecordOf<T>(value: unknown, type: 'string' | 'number'): value is Record<string, T> {
+    return isRecord(value) && Object.values(value).every((item) => typeof item === type);
+}
+
+/**
+ * Check that an arbitrary value is a usable layout document and fill in the
+ * optional members with empty defaults. Throws if the document cannot be rendered.
+ */
+export function validateLayoutData(data: unknown): LayoutData {
+    if (!isRecord(data)) {
+        throw new TypeError('Layout must be a JSON object');
+    }
+    if (!isRecordOf<string>(data.keys, 'string')) {
+        throw new TypeError('Layout "keys" must map key codes to key values');
+    }
+    const keys = data.keys;
+    const invalidCode = Object.keys(keys).find((code) => !isKeyCode(code));
+    if (invalidCode !== undefined) {
+        throw new TypeError(`Layout "keys" has an invalid key code "${invalidCode}"`);
+    }
+    if (!Array.isArray(data.areas) || data.areas.length === 0) {
+        throw new TypeError('Layout "areas" must be a non-empty array');
+    }
+    const areas: LayoutArea[] = data.areas.map((area: unknown, i: number) => {
+        if (!isRecord(area) || typeof area.name !== 'string') {
+            throw new TypeError(`Layout area ${i} must have a "name"`);
+        }
+        if (!Array.isArray(area.rows) || !area.rows.every(isStringArray)) {
+            throw new TypeError(`Layout area "${area.name}" must have "rows" of key codes`);
+        }
+        for (const row of area.rows) {
+            for (const code of row) {
+                if (code !== '__placeholder__' && !Object.hasOwn(keys, code)) {
+                    throw new TypeError(`Layout area "${area.name}" uses unknown key "${code}"`);
+                }
+            }
+        }
+        return { name: area.name, rows: area.rows };
+    });
+
+    const optionalRecord = <T>(name: string, type: 'string' | 'number') => {
+        const value = data[name];
+        if (value === undefined) return {};
+        if (!isRecordOf<T>(value, type)) {
+            throw new TypeError(`Layout "${name}" must map key codes to ${type}s`);
+        }
+        return value;
+    };
+    const optionalArray = (name: string) => {
+        const value = data[name];
+        if (value === undefined) return [];
+        if (!isStringArray(value) || !value.every(isKeyCode)) {
+            throw new TypeError(`Layout "${name}" must be an array of key codes`);
+        }
+        return value;
+    };
+    const optionalLevel = (name: string) => {
+        const value = data[name];
+        if (value === undefined) return { keys: {} };
+        if (!isRecord(value) || !isRecordOf<string>(value.keys, 'string')) {
+            throw new TypeError(`Layout "${name}.keys" must map key codes to key values`);
+        }
+        return { keys: value.keys };
+    };
+    const optionalDeadKeys = () => {
+        const value = data.deadKeys;
+        if (value === undefined) return {};
+        if (
+            !isRecord(value) ||
+            !Object.values(value).every((table) => isRecordOf<string>(table, 'string'))
+        ) {
+            throw new TypeError('Layout "deadKeys" must map dead characters to combinations');
+        }
+        return value as Record<string, Record<string, string>>;
+    };
+    const optionalCompose = () => {
+        const value = data.compose;
+        if (value === undefined) return undefined;
+        if (
+            !isRecord(value) ||
+            typeof value.key !== 'string' ||
+            !isKeyCode(value.key) ||
+            !isRecordOf<string>(value.sequences, 'string')
+        ) {
+            throw new TypeError('Layout "compose" must have a "key" code and "sequences"');
+        }
+        return { key: value.key, sequences: value.sequences };
+    };
+
+    return {
+        author: typeof data.author === 'string' ? data.author : '',
+        name: typeof data.name === 'string' ? data.name : '',
+        lang: typeof data.lang === 'string' ? data.lang : '',
+        alphabets: optionalArray('alphabets'),
+        numberKeys: optionalArray('numberKeys'),
+        areas,
+        keys,
+        keyCodes: optionalRecord<number>('keyCodes', 'number'),
+        labels: optionalRecord<string>('labels', 'string'),
+        locations: optionalRecord<number>('locations', 'number'),
+        shifted: optionalLevel('shifted'),
+        numLocked: optionalLevel('numLocked'),
+        altGr: optionalLevel('altGr'),
+        shiftAltGr: optionalLevel('shiftAltGr'),
+        deadKeys: optionalDeadKeys(),
+        compose: optionalCompose(),
+        modifierKeys: optionalArray('modifierKeys'),
+        toggleKeys: optionalArray('toggleKeys'),
+        noRepeatKeys: optionalArray('noRepeatKeys'),
+        shapes: optionalRecord<string>('shapes', 'string'),
+    };
+}
+
 export class VkJsonLayout {
     constructor(vkKeyboard: VkKeyboard) {
         this.vkKeyboard = vkKeyboard;
     }
     vkKeyboard!: VkKeyboard;
 
+    private loadId = 0;
+
+    /**
+     * Resolve the layout requested by the element (`layoutData` property first, then the
+     * `layout` attribute, which names a built-in layout or a URL). Falls back to the built-in ANSI layout and fires
+     * `vk-layout-error` if the requested layout cannot be fetched or is invalid.
+     */
     async loadLayoutJson(): Promise<void> {
-        this.layoutData = layoutTemplate as LayoutData;
+        const loadId = ++this.loadId;
+        const source: LayoutSource | null =
+            this.vkKeyboard.layoutData ?? this.vkKeyboard.getAttribute('layout');
+
+        let layoutData: LayoutData;
+        let loadError: Error | null = null;
+        if (!source) {
+            layoutData = layoutTemplate as LayoutData;
+        } else if (typeof source === 'string' && source in builtInLayouts) {
+            layoutData = builtInLayouts[source];
+        } else {
+            try {
+                const data =
+                    typeof source === 'string' ? await this.fetchLayoutJson(source) : source;
+                layoutData = validateLayoutData(data);
+            } catch (error) {
+                layoutData = layoutTemplate as LayoutData;
+                loadError = error instanceof Error ? error : new Error(String(error));
+            }
+        }
+
+        // A newer load started while this one was waiting for the network
+        if (loadId !== this.loadId) return;
+
+        this.layoutData = layoutData;
+        if (loadError) {
+            this.vkKeyboard.dispatchEvent(
+                new CustomEvent<LayoutErrorDetail>('vk-layout-error', {
+                    detail: { source: source!, error: loadError },
+                    bubbles: true,
+                    composed: true,
+                })
+            );
+        }
     }
     layoutData: LayoutData | null = null;
 
+    private async fetchLayoutJson(url: string): Promise<unknown> {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(
+                `Failed to load layout "${url}": ${response.status} ${response.statusText}`
+            );
+        }
+        return response.json();
+    }
+
     isAlphabetKey(code: string) {
         const alphabets = this.layoutData?.alphabets || [];
         return alphabets.includes(code);
@@ -710,6 +1278,11 @@ export class VkJsonLayout {
         return toggleKeys.includes(code);
     }
 
+    isRepeatableKey(code: string) {
+        const noRepeatKeys = this.layoutData?.noRepeatKeys || [];
+        return !noRepeatKeys.includes(code);
+    }
+
     isNumpadKey(code: string) {
         return code.startsWith('Numpad');
     }
@@ -717,7 +1290,42 @@ export class VkJsonLayout {
     isShiftableKey(code: string) {
         return this.layoutData?.shifted?.keys?.[code] !== undefined;
     }
-    getKeyItemByCode(code: string) {
+
+    hasAltGraphLevel(code: string) {
+        return (
+            this.layoutData?.altGr?.keys?.[code] !== undefined ||
+            this.layoutData?.shiftAltGr?.keys?.[code] !== undefined
+        );
+    }
+
+    // AltRight only acts as AltGr on layouts that define an AltGr level
+    isAltGraphActive() {
+        const altGrKeys = this.layoutData?.altGr?.keys || {};
+        const shiftAltGrKeys = this.layoutData?.shiftAltGr?.keys || {};
+        return (
+            this.vkKeyboard.state.isModifierHeld('AltRight') &&
+            Object.keys(altGrKeys).length + Object.keys(shiftAltGrKeys).length > 0
+        );
+    }
+
+    // Key value on the AltGr or Shift+AltGr level, or undefined if AltGr is not held
+    // or the key has no character on that level
+    getAltGraphKey(code: string) {
+        if (!this.layoutData || !this.isAltGraphActive()) return undefined;
+        const isShift =
+            this.vkKeyboard.state.getModifierState('ShiftLeft') ||
+            this.vkKeyboard.state.getModifierState('ShiftRight');
+        const isCapsLock = this.vkKeyboard.state.getModifierState('CapsLock');
+        // CapsLock inverts Shift for letters on the AltGr levels too
+        const useShiftLevel = isCapsLock && this.isAlphabetKey(code) ? !isShift : isShift;
+        const altGrKey = this.layoutData.altGr?.keys?.[code];
+        if (useShiftLevel) {
+            return this.layoutData.shiftAltGr?.keys?.[code] ?? altGrKey;
+        }
+        return altGrKey;
+    }
+
+    getKeyItemByCode(code: string): KeyItem | null {
         if (!this.layoutData) return null;
         const layoutData = this.layoutData;
         const key = layoutData.keys?.[code];
@@ -739,8 +1347,14 @@ export class VkJsonLayout {
             actualKeyValue = layoutData.numLocked.keys[code];
         }
 
+        const altGraphKey = this.getAltGraphKey(code);
+
+        // AltGr levels take precedence when the key has a character on them
+        if (altGraphKey !== undefined) {
+            actualKeyValue = altGraphKey;
+        }
         // Handle CapsLock for alphabet keys first
-        if (isCapsLock && this.isAlphabetKey(code)) {
+        else if (isCapsLock && this.isAlphabetKey(code)) {
             // If CapsLock is active and it's an alphabet key, convert to uppercase
             // But if Shift is also pressed, it should be lowercase (reverse the capslock effect)
             if (isShift) {
@@ -754,11 +1368,15 @@ export class VkJsonLayout {
             actualKeyValue = layoutData.shifted.keys[code];
         }
 
+        // Dead keys report "Dead" and keep the character they stand for
+        const isDeadKey = layoutData.deadKeys?.[actualKeyValue] !== undefined;
+
         return {
-            key: actualKeyValue,
+            key: isDeadKey ? 'Dead' : actualKeyValue,
             code: code,
             keyCode: keyCode || 0,
             location: location || 0,
+            deadKey: isDeadKey ? actualKeyValue : undefined,
         };
     }
     getModifierState(code: string) {
@@ -1,25 +1,401 @@
 // vk-keyboard.ts
 import { VkEditing } from './vk-editing';
+import type { VkEditingAdapter } from './vk-editing';
 import { VkEventDispatcher } from './vk-event-dispatcher';
 import { VkJsonLayout } from './vk-json-layout';
+import type { LayoutData, LayoutSource } from './vk-json-layout';
 import { VkLogger } from './vk-logger';
-import { VkState } from './vk-state';
+import { VkState, ledCodes } from './vk-state';
+import type { LedState } from './vk-state';
 import { VkTemplate } from './vk-template';
 import { VkUserOperation } from './vk-user-operation';
+import type { ModifierMode } from './vk-user-operation';
 import { VkVisual } from './vk-visual';
 import { VkAutoResize } from './vk-auto-resize';
+import { VkCompose } from './vk-compose';
+import { VkSinks } from './vk-sinks';
+import type { VkSink, VkSinkOptions } from './vk-sinks';
+import { decodeTypematic } from './vk-scancodes';
+import { VkTyping } from './vk-typing';
+import type { TypeTextOptions, TypeTextResult } from './vk-typing';
+import { VkMacro } from './vk-macro';
+import { VkPhysicalKeyboard } from './vk-physical-keyboard';
+import { VkNativeKeyboard } from './vk-native-keyboard';
+import { VkIme } from './vk-ime';
+import type { ImeConverter } from './vk-ime';
+import { VkEditHistory } from './vk-edit-history';
+import { VkClipboard } from './vk-clipboard';
+import type { KeyMacro, MacroPlayback, PlayMacroOptions } from './vk-macro';
 
 import keyboardStyles from '../styles/vk-keyboard.css?inline';
 
+// Follow focus into open shadow roots and same-origin iframes to the deepest focused element
+function getDeepActiveElement(): HTMLElement | null {
+    let activeElement = document.activeElement as HTMLElement | null;
+    while (activeElement) {
+        const shadowActiveElement = activeElement.shadowRoot?.activeElement;
+        if (shadowActiveElement) {
+            activeElement = shadowActiveElement as HTMLElement;
+            continue;
+        }
+        if (activeElement.tagName === 'IFRAME') {
+            let frameActiveElement: Element | null = null;
+            try {
+                // contentDocument is null for cross-origin frames; some browsers throw instead
+                frameActiveElement =
+                    (activeElement as HTMLIFrameElement).contentDocument?.activeElement ?? null;
+            } catch {
+                frameActiveElement = null;
+            }
+            if (frameActiveElement) {
+                activeElement = frameActiveElement as HTMLElement;
+                continue;
+            }
+        }
+        break;
+    }
+    return activeElement;
+}
+
 export class VkKeyboard extends HTMLElement {
     private _isInitialized = false;
     private _shadowRoot: ShadowRoot | null = null;
     private _useShadowDOM: boolean | null = null;
+    private _layoutData: LayoutData | null = null;
+    private _target: HTMLElement | null = null;
+    private _renderId = 0;
+    private _rendering: Promise<void> = Promise.resolve();
+
+    static get observedAttributes() {
+        return [
+            'layout',
+            'modifier-mode',
+            'rollover',
+            'mirror-physical',
+            'suppress-native-keyboard',
+        ];
+    }
 
     constructor() {
         super();
     }
 
+    /**
+     * Inline layout document. Takes precedence over the `layout` attribute;
+     * set to `null` to fall back to the attribute or the built-in ANSI layout.
+     */
+    get layoutData(): LayoutData | null {
+        return this._layoutData;
+    }
+
+    set layoutData(value: LayoutData | null) {
+        this.setLayout(value);
+    }
+
+    /**
+     * Element that receives key events and edits regardless of focus, e.g. an emulator canvas
+     * that cannot be focused. Takes precedence over the `for` attribute (the target's id).
+     * When neither is set, events go to the deepest focused element.
+     */
+    get target(): HTMLElement | null {
+        return this._target;
+    }
+
+    set target(value: HTMLElement | null) {
+        this._target = value;
+    }
+
+    /**
+     * How tapped modifier keys behave, reflecting the `modifier-mode` attribute:
+     * `one-shot` (default), `latch` (double-tap to lock) or `hold` (down while pressed).
+     */
+    get modifierMode(): ModifierMode {
+        const mode = this.getAttribute('modifier-mode');
+        return mode === 'latch' || mode === 'hold' ? mode : 'one-shot';
+    }
+
+    set modifierMode(value: ModifierMode) {
+        this.setAttribute('modifier-mode', value);
+    }
+
+    /**
+     * Number of regular keys that can be held at once, reflecting the `rollover` attribute:
+     * `"2kro"`, `"6kro"`, any `"<n>kro"`, or `"nkro"` (default) for no limit.
+     * Modifiers and toggle keys do not count towards the limit.
+     */
+    get rollover(): string {
+        return this.getAttribute('rollover') ?? 'nkro';
+    }
+
+    set rollover(value: string) {
+        this.setAttribute('rollover', value);
+    }
+
+    /**
+     * Mirror a physical keyboard, reflecting the boolean `mirror-physical` attribute: its held
+     * keys are highlighted, its lock states are followed, and its held modifiers apply to
+     * virtual key presses.
+     */
+    get mirrorPhysical(): boolean {
+        return this.hasAttribute('mirror-physical');
+    }
+
+    set mirrorPhysical(value: boolean) {
+        this.toggleAttribute('mirror-physical', value);
+    }
+
+    /**
+     * Keep the device's own on-screen keyboard from opening over editable fields while this
+     * keyboard is shown, reflecting the boolean `suppress-native-keyboard` attribute.
+     * Their `inputmode` and `virtualkeyboardpolicy` attributes are restored afterwards.
+     */
+    get suppressNativeKeyboard(): boolean {
+        return this.hasAttribute('suppress-native-keyboard');
+    }
+
+    set suppressNativeKeyboard(value: boolean) {
+        this.toggleAttribute('suppress-native-keyboard', value);
+    }
+
+    /**
+     * Let the native on-screen keyboard open again while `suppressNativeKeyboard` is set,
+     * e.g. for autocorrect. Also toggled by the keyboard button next to the LEDs.
+     */
+    get showNativeKeyboard(): boolean {
+        return this.nativeKeyboard.showNative;
+    }
+
+    set showNativeKeyboard(value: boolean) {
+        this.nativeKeyboard.setShowNative(value);
+    }
+
+    /**
+     * Converter used by the kana IME of layouts with a KanaMode key, such as `jis-109`.
+     * Defaults to the built-in romaji-to-kana converter.
+     */
+    get imeConverter(): ImeConverter {
+        return this.ime.converter;
+    }
+
+    set imeConverter(value: ImeConverter) {
+        this.ime.cancel();
+        this.ime.converter = value;
+    }
+
+    /** @internal */
+    get rolloverLimit(): number {
+        const match = /^(\d+)kro$/i.exec(this.rollover);
+        const limit = match ? Number(match[1]) : Infinity;
+        return limit > 0 ? limit : Infinity;
+    }
+
+    /**
+     * Milliseconds a key is held before it starts repeating, reflecting the `repeat-delay`
+     * attribute. Clamped to the PC/AT typematic range of 250-1000 ms; default 500.
+     */
+    get repeatDelay(): number {
+        return this.getNumberAttribute('repeat-delay', 500, 250, 1000);
+    }
+
+    set repeatDelay(value: number) {
+        this.setAttribute('repeat-delay', String(value));
+    }
+
+    /**
+     * Characters per second while a key repeats, reflecting the `repeat-rate` attribute.
+     * Clamped to the PC/AT typematic range of 2-30; default 20.
+     */
+    get repeatRate(): number {
+        return this.getNumberAttribute('repeat-rate', 20, 2, 30);
+    }
+
+    set repeatRate(value: number) {
+        this.setAttribute('repeat-rate', String(value));
+    }
+
+    /**
+     * Apply the typematic byte a guest programmed with the PS/2 `F3` command, setting
+     * `repeatDelay` and `repeatRate` from the PC/AT tables.
+     */
+    setTypematic(byte: number) {
+        const { delay, rate } = decodeTypematic(byte);
+        this.repeatDelay = delay;
+        this.repeatRate = rate;
+    }
+
+    private getNumberAttribute(name: string, defaultValue: number, min: number, max: number) {
+        const value = parseFloat(this.getAttribute(name) ?? '');
+        return Number.isFinite(value) ? Math.min(Math.max(value, min), max) : defaultValue;
+    }
+
+    /** @internal Returns the deepest focused element, ignoring the pinned target. */
+    getFocusedElement(): HTMLElement | null {
+        return getDeepActiveElement();
+    }
+
+    /** @internal Returns the pinned target, or the deepest focused element. */
+    getTargetElement(): HTMLElement {
+        if (this._target) {
+            return this._target;
+        }
+        const targetId = this.getAttribute('for');
+        if (targetId) {
+            // Resolve the id in the tree the keyboard lives in, like <label for>
+            const root = this.getRootNode() as Document | ShadowRoot;
+            const pinnedElement = root.getElementById(targetId) as HTMLElement | null;
+            if (pinnedElement) {
+                return pinnedElement;
+            }
+        }
+        return getDeepActiveElement() ?? document.body;
+    }
+
+    attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null) {
+        if (name === 'layout' && oldValue !== newValue) {
+            this.relayout();
+        } else if ((name === 'modifier-mode' || name === 'rollover') && oldValue !== newValue) {
+            // Latched or held modifiers would otherwise stay down under the new mode
+            this.userOperation.releaseAllKeys();
+        } else if (name === 'mirror-physical') {
+            this.physicalKeyboard.setEnabled(this.mirrorPhysical && this.isConnected);
+        } else if (name === 'suppress-native-keyboard') {
+            this.nativeKeyboard.setEnabled(this.suppressNativeKeyboard && this.isConnected);
+        }
+    }
+
+    /**
+     * Switch to another layout at runtime. Held keys are released with keyup events,
+     * while CapsLock/NumLock state carries over to the new layout.
+     * A string is treated as a URL and reflected to the `layout` attribute.
+     * Resolves once the new layout is rendered.
+     */
+    setLayout(layout: LayoutSource | null): Promise<void> {
+        this._layoutData = typeof layout === 'string' ? null : layout;
+        if (typeof layout === 'string' && this.getAttribute('layout') !== layout) {
+            // attributeChangedCallback starts the re-render
+            this.setAttribute('layout', layout);
+            return this._rendering;
+        }
+        return this.relayout();
+    }
+
+    /**
+     * Register a sink that receives every virtual key press, repeat and release.
+     * With `replaceDomEvents`, DOM keyboard events are no longer dispatched while it is registered.
+     * Returns a function that removes the sink again.
+     */
+    addSink(sink: VkSink, options?: VkSinkOptions): () => void {
+        this.sinks.add(sink, options);
+        return () => this.sinks.remove(sink);
+    }
+
+    /** Remove a sink registered with {@link addSink}. */
+    removeSink(sink: VkSink) {
+        this.sinks.remove(sink);
+    }
+
+    /**
+     * Register an adapter that edits custom editors, such as a canvas-based code editor or a
+     * terminal emulator, whose elements then count as editable targets. The most recently
+     * registered adapter whose `matches()` accepts the target is used.
+     * Returns a function that removes the adapter again.
+     */
+    addEditingAdapter(adapter: VkEditingAdapter): () => void {
+        this.editing.addAdapter(adapter);
+        return () => this.editing.removeAdapter(adapter);
+    }
+
+    /** Remove an adapter registered with {@link addEditingAdapter}. */
+    removeEditingAdapter(adapter: VkEditingAdapter) {
+        this.editing.removeAdapter(adapter);
+    }
+
+    /**
+     * Type text as a sequence of key presses on the active layout, pressing Shift or AltGr
+     * where needed. Resolves when typing has finished, listing any characters the layout
+     * cannot produce (those are skipped). Calls made while typing are queued.
+     */
+    typeText(text: string, options?: TypeTextOptions): Promise<TypeTextResult> {
+        return this.typing.typeText(text, options);
+    }
+
+    /** Start capturing every key press and release, with timestamps. */
+    startRecording() {
+        this.macro.startRecording();
+    }
+
+    /** Stop capturing and return the recorded macro; see `serializeMacro()` to save it. */
+    stopRecording(): KeyMacro {
+        return this.macro.stopRecording();
+    }
+
+    get isRecording(): boolean {
+        return this.macro.isRecording;
+    }
+
+    /**
+     * Replay a recorded macro (or its JSON) with the original or scaled timing.
+     * The returned playback can be paused, resumed or cancelled.
+     */
+    playMacro(macro: KeyMacro | string, options?: PlayMacroOptions): MacroPlayback {
+        return this.macro.play(macro, options);
+    }
+
+    /**
+     * Sync the lock states to the guest's LEDs, e.g. after DOS turns NumLock on at boot.
+     * Omitted locks are left unchanged. No key events are dispatched.
+     */
+    setLedState(ledState: Partial<LedState>) {
+        for (const [led, code] of Object.entries(ledCodes) as Array<[keyof LedState, string]>) {
+            const activated = ledState[led];
+            if (activated === undefined || activated === this.state.isToggleKeyActivated(code)) {
+                continue;
+            }
+            if (activated) {
+                this.state.activateToggleKey(code);
+            } else {
+                this.state.deactivateToggleKey(code);
+            }
+            this.visual.toggleKey(code, activated);
+        }
+    }
+
+    /**
+     * Whether errors thrown by sinks and editing adapters are reported to the console.
+     * They never stop the keyboard; set to false to silence them. Default true.
+     */
+    get logErrors(): boolean {
+        return this.logger.errorsEnabled;
+    }
+
+    set logErrors(value: boolean) {
+        this.logger.errorsEnabled = value;
+    }
+
+    /** Current lock states, as shown by the LED indicators. */
+    getLedState(): LedState {
+        return this.state.getLedState();
+    }
+
+    /**
+     * Whether typed text replaces the characters after the caret (up to the line end) rather
+     * than being inserted. Toggled by the Insert key in editable targets; shown as "Ovr".
+     */
+    get overwriteMode(): boolean {
+        return this.state.overwriteMode;
+    }
+
+    set overwriteMode(value: boolean) {
+        this.state.overwriteMode = value;
+        this.visual.overwriteMode(value);
+    }
+
+    private relayout(): Promise<void> {
+        if (!this._isInitialized) return Promise.resolve();
+        this._rendering = this.render();
+        return this._rendering;
+    }
+
     private get useShadowDOM(): boolean {
         if (this._useShadowDOM === null) {
             this._useShadowDOM = this.getAttribute('shadow') !== 'false';
@@ -30,15 +406,33 @@ export class VkKeyboard extends HTMLElement {
     async connectedCallback() {
         if (this._isInitialized) return;
         this._isInitialized = true;
+        this.physicalKeyboard.setEnabled(this.mirrorPhysical);
+        this.nativeKeyboard.setEnabled(this.suppressNativeKeyboard);
+
+        this._rendering = this.render();
+        await this._rendering;
+    }
+
+    private async render() {
+        const renderId = ++this._renderId;
+        // Release keys held on the current template while its layout data is still active
+        this.userOperation.releaseAllKeys();
 
         const templateHtml = await this.template.getKeyboardTemplateHtml();
 
+        // Guard: a newer render was started during the async gap above
+        if (renderId !== this._renderId) return;
+
         // Guard: element may have been disconnected during the async gap above
         if (!this.isConnected) {
             this._isInitialized = false;
             return;
         }
 
+        // Tear down listeners bound to the previous template, if any
+        this.userOperation.releaseAllKeys();
+        this.userOperation.removeAllKeyListeners();
+
         if (this.useShadowDOM) {
             if (!this._shadowRoot) {
                 this._shadowRoot = this.attachShadow({ mode: 'open' });
@@ -51,14 +445,20 @@ export class VkKeyboard extends HTMLElement {
         this.autoResize.reinitialize();
         this.userOperation.preventFocusForVkKeyboard();
         this.userOperation.handlePointerOperationsForVkKeyboard();
+        this.visual.syncToggleKeys();
+        this.ime.syncVisual();
+        this.nativeKeyboard.bindToggleButton();
     }
 
     disconnectedCallback() {
         this._isInitialized = false;
+        this.macro.cancelPlaybacks();
         this.autoResize.dispose();
         this.userOperation.stopAllRepeat();
         this.userOperation.removeAllKeyListeners();
         this.logger.removeEventListeners();
+        this.physicalKeyboard.setEnabled(false);
+        this.nativeKeyboard.setEnabled(false);
     }
 
     /** @internal Returns the shadow root (shadow mode) or the element itself (no-shadow mode) for internal DOM queries. */
@@ -114,6 +514,24 @@ export class VkKeyboard extends HTMLElement {
     userOperation = new VkUserOperation(this);
     /** @internal */
     autoResize = new VkAutoResize(this);
+    /** @internal */
+    compose = new VkCompose(this);
+    /** @internal */
+    sinks = new VkSinks(this);
+    /** @internal */
+    typing = new VkTyping(this);
+    /** @internal */
+    macro = new VkMacro(this);
+    /** @internal */
+    physicalKeyboard = new VkPhysicalKeyboard(this);
+    /** @internal */
+    nativeKeyboard = new VkNativeKeyboard(this);
+    /** @internal */
+    ime = new VkIme(this);
+    /** @internal */
+    editHistory = new VkEditHistory(this);
+    /** @internal */
+    clipboard = new VkClipboard(this);
 }
 
 customElements.define('virtual-keyboard', VkKeyboard);
@@ -8,6 +8,8 @@ export class VkLogger {
     private keyUpListener?: (e: KeyboardEvent) => void;
     private keyPressListener?: (e: KeyboardEvent) => void;
     private inputListener?: (e: InputEvent) => void;
+    // Errors thrown by sinks and editing adapters, reported unless silenced with `logErrors`
+    errorsEnabled = true;
 
     removeEventListeners() {
         if (this.keyDownListener) {
@@ -28,8 +30,14 @@ export class VkLogger {
         console.log(msg);
     }
 
+    writeError(msg: string, error: unknown) {
+        if (this.errorsEnabled) {
+            console.error(msg, error);
+        }
+    }
+
     generateLog() {
-        // format: type=keyDown,code=code,key=A,keyCode=65,isTrusted=true
+        // format: type=keyDown,code=code,key=A,keyCode=65,which=65,charCode=0,isTrusted=true
         this.keyDownListener = (e: KeyboardEvent) => {
             this.writeLog(
                 'type:' +
@@ -40,6 +48,10 @@ export class VkLogger {
                     e.key +
                     ',keyCode:' +
                     e.keyCode +
+                    ',which:' +
+                    e.which +
+                    ',charCode:' +
+                    e.charCode +
                     ',ctrlKey:' +
                     e.ctrlKey +
                     ',shiftKey:' +
@@ -61,6 +73,10 @@ export class VkLogger {
                     e.key +
                     ',keyCode:' +
                     e.keyCode +
+                    ',which:' +
+                    e.which +
+                    ',charCode:' +
+                    e.charCode +
                     ',ctrlKey:' +
                     e.ctrlKey +
                     ',shiftKey:' +
@@ -82,6 +98,10 @@ export class VkLogger {
                     e.key +
                     ',keyCode:' +
                     e.keyCode +
+                    ',which:' +
+                    e.which +
+                    ',charCode:' +
+                    e.charCode +
                     ',ctrlKey:' +
                     e.ctrlKey +
                     ',shiftKey:' +
@@ -0,0 +1,223 @@
+import type { VkKeyboard } from './vk-keyboard';
+
+/** Version written by `serializeMacro()` and accepted by `parseMacro()`. */
+export const MACRO_VERSION = 1;
+
+/** A recorded press or release, `time` milliseconds after recording started. */
+export interface MacroEvent {
+    time: number;
+    type: 'keydown' | 'keyup';
+    code: string;
+    /** True for auto-repeat presses of a held key. */
+    repeat?: boolean;
+}
+
+export interface KeyMacro {
+    version: typeof MACRO_VERSION;
+    events: MacroEvent[];
+}
+
+export interface PlayMacroOptions {
+    /** Multiplier for the recorded delays: 1 keeps the original timing, 0.5 plays twice as fast. */
+    timeScale?: number;
+}
+
+/** Controls a running macro playback. */
+export interface MacroPlayback {
+    pause(): void;
+    resume(): void;
+    /** Stop playback and release any keys it still holds. */
+    cancel(): void;
+    readonly paused: boolean;
+    /** Resolves with true when playback reached the end, or false when it was cancelled. */
+    readonly finished: Promise<boolean>;
+}
+
+/** Serialise a recorded macro to JSON. */
+export function serializeMacro(macro: KeyMacro): string {
+    return JSON.stringify(macro);
+}
+
+/** Parse and validate macro JSON, throwing a TypeError if it is malformed or of another version. */
+export function parseMacro(json: string): KeyMacro {
+    const data: unknown = JSON.parse(json);
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        throw new TypeError('Macro must be a JSON object');
+    }
+    const { version, events } = data as Record<string, unknown>;
+    if (version !== MACRO_VERSION) {
+        throw new TypeError(`Unsupported macro version ${String(version)}`);
+    }
+    if (!Array.isArray(events)) {
+        throw new TypeError('Macro "events" must be an array');
+    }
+    let previousTime = 0;
+    const parsedEvents = events.map((event: unknown, i: number): MacroEvent => {
+        const { time, type, code, repeat } = (event ?? {}) as Record<string, unknown>;
+        if (typeof time !== 'number' || !Number.isFinite(time) || time < previousTime) {
+            throw new TypeError(`Macro event ${i} must have a non-decreasing "time"`);
+        }
+        if (type !== 'keydown' && type !== 'keyup') {
+            throw new TypeError(`Macro event ${i} must have type "keydown" or "keyup"`);
+        }
+        if (typeof code !== 'string') {
+            throw new TypeError(`Macro event ${i} must have a key "code"`);
+        }
+        previousTime = time;
+        return repeat === true ? { time, type, code, repeat } : { time, type, code };
+    });
+    return { version: MACRO_VERSION, events: parsedEvents };
+}
+
+export class VkMacro {
+    constructor(vkKeyboard: VkKeyboard) {
+        this.vkKeyboard = vkKeyboard;
+    }
+    vkKeyboard!: VkKeyboard;
+
+    // Events captured since startRecording(), or null when not recording
+    private recording: MacroEvent[] | null = null;
+    private recordingStart = 0;
+    private playbacks: Set<VkMacroPlayback> = new Set();
+
+    get isRecording() {
+        return this.recording !== null;
+    }
+
+    startRecording() {
+        this.recording = [];
+        this.recordingStart = performance.now();
+    }
+
+    stopRecording(): KeyMacro {
+        const events = this.recording ?? [];
+        this.recording = null;
+        return { version: MACRO_VERSION, events };
+    }
+
+    recordKeyDown(code: string, repeat: boolean) {
+        this.record(repeat ? { type: 'keydown', code, repeat } : { type: 'keydown', code });
+    }
+
+    recordKeyUp(code: string) {
+        this.record({ type: 'keyup', code });
+    }
+
+    private record(event: Omit<MacroEvent, 'time'>) {
+        if (!this.recording) return;
+        const time = Math.round(performance.now() - this.recordingStart);
+        this.recording.push({ time, ...event });
+    }
+
+    play(macro: KeyMacro | string, options: PlayMacroOptions = {}): MacroPlayback {
+        const { events } = typeof macro === 'string' ? parseMacro(macro) : macro;
+        const playback = new VkMacroPlayback(this.vkKeyboard, events, options.timeScale ?? 1);
+        this.playbacks.add(playback);
+        const forget = () => this.playbacks.delete(playback);
+        playback.finished.then(forget, forget);
+        return playback;
+    }
+
+    // Stop every playback, e.g. when the keyboard is removed from the document
+    cancelPlaybacks() {
+        this.playbacks.forEach((playback) => playback.cancel());
+    }
+}
+
+class VkMacroPlayback implements MacroPlayback {
+    constructor(vkKeyboard: VkKeyboard, events: MacroEvent[], timeScale: number) {
+        this.vkKeyboard = vkKeyboard;
+        this.finished = this.run(events, timeScale);
+    }
+    vkKeyboard!: VkKeyboard;
+    readonly finished: Promise<boolean>;
+
+    private cancelled = false;
+    private isPaused = false;
+    // The pending wait between two events, kept so that pause() can stop its timer
+    private timer?: number;
+    private timerStart = 0;
+    private remaining = 0;
+    private resolveWait?: () => void;
+
+    get paused() {
+        return this.isPaused;
+    }
+
+    pause() {
+        if (this.isPaused || this.cancelled) return;
+        this.isPaused = true;
+        if (this.timer !== undefined) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+            this.remaining -= performance.now() - this.timerStart;
+        }
+    }
+
+    resume() {
+        if (!this.isPaused || this.cancelled) return;
+        this.isPaused = false;
+        if (this.resolveWait) this.startTimer();
+    }
+
+    cancel() {
+        if (this.cancelled) return;
+        this.cancelled = true;
+        clearTimeout(this.timer);
+        this.timer = undefined;
+        this.resolveWait?.();
+    }
+
+    private async run(events: MacroEvent[], timeScale: number) {
+        const userOperation = this.vkKeyboard.userOperation;
+        // Start from a clean state so that latched modifiers don't change the replayed keys
+        userOperation.releaseAllKeys();
+
+        // Keys pressed by the macro and not yet released
+        const heldKeys = new Set<string>();
+        try {
+            let previousTime = 0;
+            for (const event of events) {
+                await this.wait(Math.max(0, (event.time - previousTime) * timeScale));
+                if (this.cancelled) return false;
+                previousTime = event.time;
+                if (event.type === 'keydown') {
+                    userOperation.replayKeyDown(event.code, event.repeat ?? false);
+                    heldKeys.add(event.code);
+                } else {
+                    userOperation.replayKeyUp(event.code);
+                    heldKeys.delete(event.code);
+                }
+            }
+            return true;
+        } finally {
+            // Release keys left held by a cancelled playback, or by a recording that was
+            // stopped while a key was down
+            for (const code of Array.from(heldKeys).reverse()) {
+                userOperation.replayKeyUp(code);
+            }
+        }
+    }
+
+    private wait(delay: number) {
+        return new Promise<void>((resolve) => {
+            this.remaining = delay;
+            this.resolveWait = () => {
+                this.resolveWait = undefined;
+                resolve();
+            };
+            if (!this.isPaused) this.startTimer();
+        });
+    }
+
+    private startTimer() {
+        this.timerStart = performance.now();
+        this.timer = window.setTimeout(
+            () => {
+                this.timer = undefined;
+                this.resolveWait?.();
+            },
+            Math.max(0, this.remaining)
+        );
+    }
+}
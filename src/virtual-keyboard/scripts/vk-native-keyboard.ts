@@ -0,0 +1,133 @@
+import type { VkKeyboard } from './vk-keyboard';
+
+// Attributes that keep the native on-screen keyboard closed, with the values we set
+const suppressingAttributes: Record<string, string> = {
+    inputmode: 'none',
+    virtualkeyboardpolicy: 'manual',
+};
+
+// The VirtualKeyboard API is not in every browser, nor in the DOM typings yet
+interface NavigatorWithVirtualKeyboard extends Navigator {
+    virtualKeyboard?: { hide(): void };
+}
+
+export class VkNativeKeyboard {
+    constructor(vkKeyboard: VkKeyboard) {
+        this.vkKeyboard = vkKeyboard;
+    }
+    vkKeyboard!: VkKeyboard;
+
+    showNative = false;
+    private enabled = false;
+    // Original attribute values of the elements we changed, null where one was absent
+    private savedAttributes: Map<HTMLElement, Record<string, string | null>> = new Map();
+
+    setEnabled(enabled: boolean) {
+        if (enabled === this.enabled) return;
+        this.enabled = enabled;
+        if (enabled) {
+            document.addEventListener('focusin', this.handleFocusIn, true);
+            document.addEventListener('focusout', this.handleFocusOut, true);
+            this.suppress(this.vkKeyboard.getFocusedElement());
+        } else {
+            document.removeEventListener('focusin', this.handleFocusIn, true);
+            document.removeEventListener('focusout', this.handleFocusOut, true);
+            this.restoreAll();
+        }
+        this.updateToggleButton();
+    }
+
+    setShowNative(show: boolean) {
+        this.showNative = show;
+        if (show) {
+            // Takes effect the next time the field is tapped
+            this.restoreAll();
+        } else if (this.enabled) {
+            this.suppress(this.vkKeyboard.getFocusedElement());
+        }
+        this.updateToggleButton();
+    }
+
+    // Wire up the toggle button of a freshly rendered template
+    bindToggleButton() {
+        const button = this.getToggleButton();
+        if (!button) return;
+        // Keep focus, and with it the caret, in the edited field
+        button.addEventListener('pointerdown', (event) => event.preventDefault());
+        button.addEventListener('click', () => this.setShowNative(!this.showNative));
+        this.updateToggleButton();
+    }
+
+    private getToggleButton() {
+        return this.vkKeyboard
+            .getRoot()
+            .querySelector('.vk-native-keyboard-toggle') as HTMLButtonElement | null;
+    }
+
+    private updateToggleButton() {
+        const button = this.getToggleButton();
+        if (!button) return;
+        button.hidden = !this.enabled;
+        button.setAttribute('aria-pressed', String(this.showNative));
+    }
+
+    private handleFocusIn = (event: FocusEvent) => {
+        // The first entry of the path is the focused element inside any shadow root
+        const element = event.composedPath()[0];
+        if (element instanceof HTMLElement) {
+            this.suppress(element);
+        }
+    };
+
+    private handleFocusOut = (event: FocusEvent) => {
+        const element = event.composedPath()[0];
+        if (element instanceof HTMLElement) {
+            this.restore(element);
+        }
+    };
+
+    private isShown() {
+        return this.vkKeyboard.isConnected && this.vkKeyboard.getClientRects().length > 0;
+    }
+
+    private suppress(element: HTMLElement | null) {
+        if (
+            !element ||
+            this.showNative ||
+            this.savedAttributes.has(element) ||
+            // The IME bridge exists to use the native keyboard
+            element.closest('virtual-keyboard-ime') ||
+            !this.vkKeyboard.editing.isEditableElement(element) ||
+            !this.isShown()
+        ) {
+            return;
+        }
+        const saved: Record<string, string | null> = {};
+        for (const [name, value] of Object.entries(suppressingAttributes)) {
+            saved[name] = element.getAttribute(name);
+            element.setAttribute(name, value);
+        }
+        this.savedAttributes.set(element, saved);
+        // The field may already have opened the native keyboard before we changed it
+        (navigator as NavigatorWithVirtualKeyboard).virtualKeyboard?.hide();
+    }
+
+    private restore(element: HTMLElement) {
+        const saved = this.savedAttributes.get(element);
+        if (!saved) return;
+        for (const [name, value] of Object.entries(saved)) {
+            if (value === null) {
+                element.removeAttribute(name);
+            } else {
+                element.setAttribute(name, value);
+            }
+        }
+        this.savedAttributes.delete(element);
+    }
+
+    private restoreAll() {
+        for (const element of Array.from(this.savedAttributes.keys())) {
+            this.restore(element);
+        }
+    }
+}
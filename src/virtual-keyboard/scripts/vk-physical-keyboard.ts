@@ -0,0 +1,69 @@
+import type { VkKeyboard } from './vk-keyboard';
+import type { VirtualKeyboardEvent } from './vk-event-dispatcher';
+
+export class VkPhysicalKeyboard {
+    constructor(vkKeyboard: VkKeyboard) {
+        this.vkKeyboard = vkKeyboard;
+    }
+    vkKeyboard!: VkKeyboard;
+
+    private enabled = false;
+
+    setEnabled(enabled: boolean) {
+        if (enabled === this.enabled) return;
+        this.enabled = enabled;
+        if (enabled) {
+            // Capture phase, so that handlers stopping propagation don't hide keys from us
+            window.addEventListener('keydown', this.handleKeyEvent, true);
+            window.addEventListener('keyup', this.handleKeyEvent, true);
+            window.addEventListener('blur', this.handleBlur);
+        } else {
+            window.removeEventListener('keydown', this.handleKeyEvent, true);
+            window.removeEventListener('keyup', this.handleKeyEvent, true);
+            window.removeEventListener('blur', this.handleBlur);
+            this.releaseAll();
+        }
+    }
+
+    private handleKeyEvent = (event: KeyboardEvent) => {
+        // Only real key presses; our own events are untrusted and marked
+        if (!event.isTrusted || (event as VirtualKeyboardEvent).isVirtualKeyboardEvent) return;
+
+        const physicalKeys = this.vkKeyboard.state.keys.physicalKeys;
+        if (event.type === 'keydown') {
+            physicalKeys.add(event.code);
+        } else {
+            physicalKeys.delete(event.code);
+        }
+        this.vkKeyboard.visual.physicalKey(event.code, event.type === 'keydown');
+
+        // The operating system owns the lock states of the physical keyboard
+        this.vkKeyboard.setLedState({
+            capsLock: event.getModifierState('CapsLock'),
+            numLock: event.getModifierState('NumLock'),
+            scrollLock: event.getModifierState('ScrollLock'),
+        });
+        this.syncLevels();
+    };
+
+    // Key releases are not delivered while the window is in the background
+    private handleBlur = () => {
+        this.releaseAll();
+    };
+
+    private releaseAll() {
+        const physicalKeys = this.vkKeyboard.state.keys.physicalKeys;
+        physicalKeys.forEach((code) => this.vkKeyboard.visual.physicalKey(code, false));
+        physicalKeys.clear();
+        this.syncLevels();
+    }
+
+    // Show the shifted or AltGr labels while either keyboard holds the modifier
+    private syncLevels() {
+        const state = this.vkKeyboard.state;
+        this.vkKeyboard.visual.shiftKeyboard(
+            state.isModifierHeld('ShiftLeft') || state.isModifierHeld('ShiftRight')
+        );
+        this.vkKeyboard.visual.altGraphKeyboard(this.vkKeyboard.jsonLayout.isAltGraphActive());
+    }
+}
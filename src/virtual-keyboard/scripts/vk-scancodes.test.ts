@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest';
+import { builtInLayouts } from './vk-json-layout';
+import { createScancodeSink, getBreakCode, getMakeCode } from './vk-scancodes';
+import type { VkKeyInfo } from './vk-sinks';
+
+// Make codes of every key of the built-in layouts: [set 1, set 2]
+const expectedMakeCodes: Record<string, [string, string]> = {
+    Escape: ['01', '76'],
+    F1: ['3B', '05'],
+    F2: ['3C', '06'],
+    F3: ['3D', '04'],
+    F4: ['3E', '0C'],
+    F5: ['3F', '03'],
+    F6: ['40', '0B'],
+    F7: ['41', '83'],
+    F8: ['42', '0A'],
+    F9: ['43', '01'],
+    F10: ['44', '09'],
+    F11: ['57', '78'],
+    F12: ['58', '07'],
+    Backquote: ['29', '0E'],
+    Digit1: ['02', '16'],
+    Digit2: ['03', '1E'],
+    Digit3: ['04', '26'],
+    Digit4: ['05', '25'],
+    Digit5: ['06', '2E'],
+    Digit6: ['07', '36'],
+    Digit7: ['08', '3D'],
+    Digit8: ['09', '3E'],
+    Digit9: ['0A', '46'],
+    Digit0: ['0B', '45'],
+    Minus: ['0C', '4E'],
+    Equal: ['0D', '55'],
+    Backspace: ['0E', '66'],
+    Tab: ['0F', '0D'],
+    KeyQ: ['10', '15'],
+    KeyW: ['11', '1D'],
+    KeyE: ['12', '24'],
+    KeyR: ['13', '2D'],
+    KeyT: ['14', '2C'],
+    KeyY: ['15', '35'],
+    KeyU: ['16', '3C'],
+    KeyI: ['17', '43'],
+    KeyO: ['18', '44'],
+    KeyP: ['19', '4D'],
+    BracketLeft: ['1A', '54'],
+    BracketRight: ['1B', '5B'],
+    Backslash: ['2B', '5D'],
+    CapsLock: ['3A', '58'],
+    KeyA: ['1E', '1C'],
+    KeyS: ['1F', '1B'],
+    KeyD: ['20', '23'],
+    KeyF: ['21', '2B'],
+    KeyG: ['22', '34'],
+    KeyH: ['23', '33'],
+    KeyJ: ['24', '3B'],
+    KeyK: ['25', '42'],
+    KeyL: ['26', '4B'],
+    Semicolon: ['27', '4C'],
+    Quote: ['28', '52'],
+    Enter: ['1C', '5A'],
+    ShiftLeft: ['2A', '12'],
+    KeyZ: ['2C', '1A'],
+    KeyX: ['2D', '22'],
+    KeyC: ['2E', '21'],
+    KeyV: ['2F', '2A'],
+    KeyB: ['30', '32'],
+    KeyN: ['31', '31'],
+    KeyM: ['32', '3A'],
+    Comma: ['33', '41'],
+    Period: ['34', '49'],
+    Slash: ['35', '4A'],
+    ShiftRight: ['36', '59'],
+    ControlLeft: ['1D', '14'],
+    MetaLeft: ['E0 5B', 'E0 1F'],
+    AltLeft: ['38', '11'],
+    Space: ['39', '29'],
+    AltRight: ['E0 38', 'E0 11'],
+    WakeUp: ['E0 63', 'E0 5E'],
+    ContextMenu: ['E0 5D', 'E0 2F'],
+    ControlRight: ['E0 1D', 'E0 14'],
+    PrintScreen: ['E0 2A E0 37', 'E0 12 E0 7C'],
+    ScrollLock: ['46', '7E'],
+    Pause: ['E1 1D 45 E1 9D C5', 'E1 14 77 E1 F0 14 F0 77'],
+    Insert: ['E0 52', 'E0 70'],
+    Home: ['E0 47', 'E0 6C'],
+    PageUp: ['E0 49', 'E0 7D'],
+    Delete: ['E0 53', 'E0 71'],
+    End: ['E0 4F', 'E0 69'],
+    PageDown: ['E0 51', 'E0 7A'],
+    ArrowUp: ['E0 48', 'E0 75'],
+    ArrowLeft: ['E0 4B', 'E0 6B'],
+    ArrowDown: ['E0 50', 'E0 72'],
+    ArrowRight: ['E0 4D', 'E0 74'],
+    NumLock: ['45', '77'],
+    NumpadDivide: ['E0 35', 'E0 4A'],
+    NumpadMultiply: ['37', '7C'],
+    NumpadSubtract: ['4A', '7B'],
+    Numpad7: ['47', '6C'],
+    Numpad8: ['48', '75'],
+    Numpad9: ['49', '7D'],
+    NumpadAdd: ['4E', '79'],
+    Numpad4: ['4B', '6B'],
+    Numpad5: ['4C', '73'],
+    Numpad6: ['4D', '74'],
+    Numpad1: ['4F', '69'],
+    Numpad2: ['50', '72'],
+    Numpad3: ['51', '7A'],
+    NumpadEnter: ['E0 1C', 'E0 5A'],
+    Numpad0: ['52', '70'],
+    NumpadDecimal: ['53', '71'],
+    IntlBackslash: ['56', '61'],
+    IntlYen: ['7D', '6A'],
+    IntlRo: ['73', '51'],
+    NonConvert: ['7B', '67'],
+    Convert: ['79', '64'],
+    KanaMode: ['70', '13'],
+};
+
+// Break codes that do not follow from the make code
+const expectedSpecialBreakCodes: Record<string, [string, string]> = {
+    PrintScreen: ['E0 B7 E0 AA', 'E0 F0 7C E0 F0 12'],
+    Pause: ['', ''],
+};
+
+function toBytes(hex: string) {
+    return hex ? hex.split(' ').map((byte) => parseInt(byte, 16)) : [];
+}
+
+// Set 1 releases a key with bit 7 of its last byte set, set 2 with F0 ahead of it
+function toBreakCode(make: number[], set: 1 | 2) {
+    const prefix = make.slice(0, -1);
+    const last = make[make.length - 1];
+    return set === 1 ? [...prefix, last | 0x80] : [...prefix, 0xf0, last];
+}
+
+const layoutCodes = Object.entries(builtInLayouts).flatMap(([name, layout]) =>
+    layout.areas
+        .flatMap((area) => area.rows.flat())
+        .filter((code) => code !== '__placeholder__')
+        .map((code): [string, string] => [name, code])
+);
+
+describe('getMakeCode and getBreakCode', () => {
+    it.each(layoutCodes)('%s %s', (_layout, code) => {
+        expect(expectedMakeCodes).toHaveProperty(code);
+        for (const set of [1, 2] as const) {
+            const make = toBytes(expectedMakeCodes[code][set - 1]);
+            const specialBreak = expectedSpecialBreakCodes[code];
+            const breakCode = specialBreak
+                ? toBytes(specialBreak[set - 1])
+                : toBreakCode(make, set);
+            expect(getMakeCode(code, set)).toEqual(make);
+            expect(getBreakCode(code, set)).toEqual(breakCode);
+        }
+    });
+
+    it('sends Ctrl+Pause as Break', () => {
+        expect(getMakeCode('Pause', 1, true)).toEqual(toBytes('E0 46'));
+        expect(getBreakCode('Pause', 1, true)).toEqual(toBytes('E0 C6'));
+        expect(getMakeCode('Pause', 2, true)).toEqual(toBytes('E0 7E'));
+        expect(getBreakCode('Pause', 2, true)).toEqual(toBytes('E0 F0 7E'));
+    });
+
+    it('returns null for keys without a scancode', () => {
+        expect(getMakeCode('Fn', 1)).toBeNull();
+        expect(getBreakCode('Fn', 2)).toBeNull();
+    });
+});
+
+describe('createScancodeSink', () => {
+    const info = (repeat: boolean, ctrlKey: boolean): VkKeyInfo => ({
+        key: '',
+        code: 'Pause',
+        keyCode: 19,
+        location: 0,
+        repeat,
+        shiftKey: false,
+        ctrlKey,
+        altKey: false,
+        metaKey: false,
+        modifierAltGraph: false,
+        capsLock: false,
+        numLock: false,
+        scrollLock: false,
+    });
+
+    it('does not repeat Pause or send a break code for it', () => {
+        const sent: number[][] = [];
+        const sink = createScancodeSink((bytes) => sent.push(bytes), 1);
+        sink.keyDown!('Pause', info(false, false));
+        sink.keyDown!('Pause', info(true, false));
+        sink.keyUp!('Pause', info(false, false));
+        expect(sent).toEqual([toBytes('E1 1D 45 E1 9D C5')]);
+    });
+
+    it('releases Break even if Ctrl was let go first', () => {
+        const sent: number[][] = [];
+        const sink = createScancodeSink((bytes) => sent.push(bytes), 2);
+        sink.keyDown!('Pause', info(false, true));
+        sink.keyUp!('Pause', info(false, false));
+        expect(sent).toEqual([toBytes('E0 7E'), toBytes('E0 F0 7E')]);
+    });
+});
@@ -0,0 +1,234 @@
+import type { VkKeyInfo, VkSink } from './vk-sinks';
+
+/** PS/2 (AT) scancode set: 1 (XT, as seen by most emulated guests) or 2 (AT, as sent by the keyboard). */
+export type ScancodeSet = 1 | 2;
+
+// Make codes of keys without a prefix: [set 1, set 2]
+const baseScancodes: Record<string, [number, number]> = {
+    Escape: [0x01, 0x76],
+    Digit1: [0x02, 0x16],
+    Digit2: [0x03, 0x1e],
+    Digit3: [0x04, 0x26],
+    Digit4: [0x05, 0x25],
+    Digit5: [0x06, 0x2e],
+    Digit6: [0x07, 0x36],
+    Digit7: [0x08, 0x3d],
+    Digit8: [0x09, 0x3e],
+    Digit9: [0x0a, 0x46],
+    Digit0: [0x0b, 0x45],
+    Minus: [0x0c, 0x4e],
+    Equal: [0x0d, 0x55],
+    Backspace: [0x0e, 0x66],
+    Tab: [0x0f, 0x0d],
+    KeyQ: [0x10, 0x15],
+    KeyW: [0x11, 0x1d],
+    KeyE: [0x12, 0x24],
+    KeyR: [0x13, 0x2d],
+    KeyT: [0x14, 0x2c],
+    KeyY: [0x15, 0x35],
+    KeyU: [0x16, 0x3c],
+    KeyI: [0x17, 0x43],
+    KeyO: [0x18, 0x44],
+    KeyP: [0x19, 0x4d],
+    BracketLeft: [0x1a, 0x54],
+    BracketRight: [0x1b, 0x5b],
+    Enter: [0x1c, 0x5a],
+    ControlLeft: [0x1d, 0x14],
+    KeyA: [0x1e, 0x1c],
+    KeyS: [0x1f, 0x1b],
+    KeyD: [0x20, 0x23],
+    KeyF: [0x21, 0x2b],
+    KeyG: [0x22, 0x34],
+    KeyH: [0x23, 0x33],
+    KeyJ: [0x24, 0x3b],
+    KeyK: [0x25, 0x42],
+    KeyL: [0x26, 0x4b],
+    Semicolon: [0x27, 0x4c],
+    Quote: [0x28, 0x52],
+    Backquote: [0x29, 0x0e],
+    ShiftLeft: [0x2a, 0x12],
+    Backslash: [0x2b, 0x5d],
+    KeyZ: [0x2c, 0x1a],
+    KeyX: [0x2d, 0x22],
+    KeyC: [0x2e, 0x21],
+    KeyV: [0x2f, 0x2a],
+    KeyB: [0x30, 0x32],
+    KeyN: [0x31, 0x31],
+    KeyM: [0x32, 0x3a],
+    Comma: [0x33, 0x41],
+    Period: [0x34, 0x49],
+    Slash: [0x35, 0x4a],
+    ShiftRight: [0x36, 0x59],
+    NumpadMultiply: [0x37, 0x7c],
+    AltLeft: [0x38, 0x11],
+    Space: [0x39, 0x29],
+    CapsLock: [0x3a, 0x58],
+    F1: [0x3b, 0x05],
+    F2: [0x3c, 0x06],
+    F3: [0x3d, 0x04],
+    F4: [0x3e, 0x0c],
+    F5: [0x3f, 0x03],
+    F6: [0x40, 0x0b],
+    F7: [0x41, 0x83],
+    F8: [0x42, 0x0a],
+    F9: [0x43, 0x01],
+    F10: [0x44, 0x09],
+    NumLock: [0x45, 0x77],
+    ScrollLock: [0x46, 0x7e],
+    Numpad7: [0x47, 0x6c],
+    Numpad8: [0x48, 0x75],
+    Numpad9: [0x49, 0x7d],
+    NumpadSubtract: [0x4a, 0x7b],
+    Numpad4: [0x4b, 0x6b],
+    Numpad5: [0x4c, 0x73],
+    Numpad6: [0x4d, 0x74],
+    NumpadAdd: [0x4e, 0x79],
+    Numpad1: [0x4f, 0x69],
+    Numpad2: [0x50, 0x72],
+    Numpad3: [0x51, 0x7a],
+    Numpad0: [0x52, 0x70],
+    NumpadDecimal: [0x53, 0x71],
+    IntlBackslash: [0x56, 0x61],
+    F11: [0x57, 0x78],
+    F12: [0x58, 0x07],
+    KanaMode: [0x70, 0x13],
+    IntlRo: [0x73, 0x51],
+    Convert: [0x79, 0x64],
+    NonConvert: [0x7b, 0x67],
+    IntlYen: [0x7d, 0x6a],
+};
+
+// Make codes of extended keys, sent after an E0 prefix: [set 1, set 2]
+const extendedScancodes: Record<string, [number, number]> = {
+    NumpadEnter: [0x1c, 0x5a],
+    ControlRight: [0x1d, 0x14],
+    NumpadDivide: [0x35, 0x4a],
+    AltRight: [0x38, 0x11],
+    Home: [0x47, 0x6c],
+    ArrowUp: [0x48, 0x75],
+    PageUp: [0x49, 0x7d],
+    ArrowLeft: [0x4b, 0x6b],
+    ArrowRight: [0x4d, 0x74],
+    End: [0x4f, 0x69],
+    ArrowDown: [0x50, 0x72],
+    PageDown: [0x51, 0x7a],
+    Insert: [0x52, 0x70],
+    Delete: [0x53, 0x71],
+    MetaLeft: [0x5b, 0x1f],
+    MetaRight: [0x5c, 0x27],
+    ContextMenu: [0x5d, 0x2f],
+    Power: [0x5e, 0x37],
+    Sleep: [0x5f, 0x3f],
+    WakeUp: [0x63, 0x5e],
+};
+
+// Keys with sequences of their own: [set 1, set 2]
+const specialMakeCodes: Record<string, [number[], number[]]> = {
+    PrintScreen: [
+        [0xe0, 0x2a, 0xe0, 0x37],
+        [0xe0, 0x12, 0xe0, 0x7c],
+    ],
+    // Pause has no break code and does not repeat
+    Pause: [
+        [0xe1, 0x1d, 0x45, 0xe1, 0x9d, 0xc5],
+        [0xe1, 0x14, 0x77, 0xe1, 0xf0, 0x14, 0xf0, 0x77],
+    ],
+    // Ctrl+Pause is sent as Break, which behaves like an ordinary extended key
+    Break: [
+        [0xe0, 0x46],
+        [0xe0, 0x7e],
+    ],
+};
+
+const specialBreakCodes: Record<string, [number[], number[]]> = {
+    PrintScreen: [
+        [0xe0, 0xb7, 0xe0, 0xaa],
+        [0xe0, 0xf0, 0x7c, 0xe0, 0xf0, 0x12],
+    ],
+    Pause: [[], []],
+    Break: [
+        [0xe0, 0xc6],
+        [0xe0, 0xf0, 0x7e],
+    ],
+};
+
+function resolveSpecialCode(code: string, ctrlKey: boolean) {
+    return code === 'Pause' && ctrlKey ? 'Break' : code;
+}
+
+/**
+ * Make code bytes sent when a key is pressed or repeats, or null if the key has no scancode.
+ * Pass `ctrlKey` so that Ctrl+Pause is encoded as Break.
+ */
+export function getMakeCode(code: string, set: ScancodeSet = 2, ctrlKey = false): number[] | null {
+    const index = set - 1;
+    const special = specialMakeCodes[resolveSpecialCode(code, ctrlKey)];
+    if (special) return [...special[index]];
+    if (code in baseScancodes) return [baseScancodes[code][index]];
+    if (code in extendedScancodes) return [0xe0, extendedScancodes[code][index]];
+    return null;
+}
+
+/**
+ * Break code bytes sent when a key is released, or null if the key has no scancode.
+ * Pause returns an empty sequence, since its make code already contains the release.
+ */
+export function getBreakCode(code: string, set: ScancodeSet = 2, ctrlKey = false): number[] | null {
+    const index = set - 1;
+    const special = specialBreakCodes[resolveSpecialCode(code, ctrlKey)];
+    if (special) return [...special[index]];
+    if (code in baseScancodes) {
+        const make = baseScancodes[code][index];
+        return set === 1 ? [make | 0x80] : [0xf0, make];
+    }
+    if (code in extendedScancodes) {
+        const make = extendedScancodes[code][index];
+        return set === 1 ? [0xe0, make | 0x80] : [0xe0, 0xf0, make];
+    }
+    return null;
+}
+
+// Repeat rates selected by bits 0-4 of the typematic byte, in characters per second
+const typematicRates = [
+    30.0, 26.7, 24.0, 21.8, 20.7, 18.5, 17.1, 16.0, 15.0, 13.3, 12.0, 10.9, 10.0, 9.2, 8.6, 8.0,
+    7.5, 6.7, 6.0, 5.5, 5.0, 4.6, 4.3, 4.0, 3.7, 3.3, 3.0, 2.7, 2.5, 2.3, 2.1, 2.0,
+];
+
+/**
+ * Decode the typematic byte a guest sends with the PS/2 `F3` command (or INT 16h AX=0305h)
+ * into a repeat delay (250-1000 ms) and rate (2-30 characters per second).
+ */
+export function decodeTypematic(byte: number): { delay: number; rate: number } {
+    return {
+        delay: (((byte >> 5) & 0x03) + 1) * 250,
+        rate: typematicRates[byte & 0x1f],
+    };
+}
+
+/**
+ * Create an output sink that turns every virtual press, repeat and release into
+ * scancode bytes, for `keyboard.addSink()`.
+ */
+export function createScancodeSink(
+    onBytes: (bytes: number[], code: string, info: VkKeyInfo) => void,
+    set: ScancodeSet = 2
+): VkSink {
+    // Ctrl state at press time, so the release of Pause/Break matches its make code
+    const pressedWithCtrl = new Map<string, boolean>();
+
+    return {
+        keyDown(code, info) {
+            const ctrlKey = info.repeat ? (pressedWithCtrl.get(code) ?? false) : info.ctrlKey;
+            if (info.repeat && resolveSpecialCode(code, ctrlKey) === 'Pause') return;
+            pressedWithCtrl.set(code, ctrlKey);
+            const bytes = getMakeCode(code, set, ctrlKey);
+            if (bytes && bytes.length > 0) onBytes(bytes, code, info);
+        },
+        keyUp(code, info) {
+            const ctrlKey = pressedWithCtrl.get(code) ?? info.ctrlKey;
+            pressedWithCtrl.delete(code);
+            const bytes = getBreakCode(code, set, ctrlKey);
+            if (bytes && bytes.length > 0) onBytes(bytes, code, info);
+        },
+    };
+}
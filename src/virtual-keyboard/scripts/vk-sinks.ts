@@ -0,0 +1,100 @@
+import type { VkKeyboard } from './vk-keyboard';
+
+/** A key press, repeat or release as resolved by the virtual keyboard. */
+export interface VkKeyInfo {
+    key: string;
+    code: string;
+    keyCode: number;
+    location: number;
+    repeat: boolean;
+    shiftKey: boolean;
+    ctrlKey: boolean;
+    altKey: boolean;
+    metaKey: boolean;
+    modifierAltGraph: boolean;
+    capsLock: boolean;
+    numLock: boolean;
+    scrollLock: boolean;
+}
+
+/**
+ * Receives virtual keystrokes directly, e.g. to call an emulator's own input API.
+ * All methods are optional.
+ */
+export interface VkSink {
+    /** A key was pressed, or is auto-repeating (`info.repeat` is true). */
+    keyDown?(code: string, info: VkKeyInfo): void;
+    /** A character was produced; `info.key` holds the character. */
+    keyPress?(code: string, info: VkKeyInfo): void;
+    /** A key was released. */
+    keyUp?(code: string, info: VkKeyInfo): void;
+}
+
+export interface VkSinkOptions {
+    /** Stop dispatching DOM `keydown`/`keypress`/`keyup` events while this sink is registered. */
+    replaceDomEvents?: boolean;
+    /**
+     * The guest generates auto-repeat itself, e.g. at the typematic rate it programmed, so
+     * held keys are pressed only once while this sink is registered.
+     */
+    guestRepeat?: boolean;
+}
+
+export class VkSinks {
+    constructor(vkKeyboard: VkKeyboard) {
+        this.vkKeyboard = vkKeyboard;
+    }
+    vkKeyboard!: VkKeyboard;
+
+    private sinks: Map<VkSink, VkSinkOptions> = new Map();
+
+    add(sink: VkSink, options: VkSinkOptions = {}) {
+        this.sinks.set(sink, options);
+    }
+
+    remove(sink: VkSink) {
+        this.sinks.delete(sink);
+    }
+
+    // True when any registered sink takes the place of DOM keyboard events
+    get replacesDomEvents() {
+        for (const options of this.sinks.values()) {
+            if (options.replaceDomEvents) return true;
+        }
+        return false;
+    }
+
+    // True when any registered sink leaves auto-repeat to the guest
+    get leavesRepeatToGuest() {
+        for (const options of this.sinks.values()) {
+            if (options.guestRepeat) return true;
+        }
+        return false;
+    }
+
+    keyDown(code: string, info: VkKeyInfo) {
+        this.notify('keyDown', code, info);
+    }
+
+    keyPress(code: string, info: VkKeyInfo) {
+        this.notify('keyPress', code, info);
+    }
+
+    keyUp(code: string, info: VkKeyInfo) {
+        this.notify('keyUp', code, info);
+    }
+
+    private notify(method: keyof VkSink, code: string, info: VkKeyInfo) {
+        for (const sink of Array.from(this.sinks.keys())) {
+            try {
+                sink[method]?.(code, info);
+            } catch (error) {
+                // A failing sink must not stop the others or the keyboard itself
+                this.vkKeyboard.logger.writeError(
+                    `Virtual keyboard sink failed in ${method}:`,
+                    error
+                );
+            }
+        }
+    }
+}
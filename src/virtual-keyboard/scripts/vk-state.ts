@@ -1,5 +1,19 @@
 import type { VkKeyboard } from './vk-keyboard';
 
+/** Lock key LEDs, as owned by the guest. */
+export interface LedState {
+    capsLock: boolean;
+    numLock: boolean;
+    scrollLock: boolean;
+}
+
+// Toggle key behind each LED
+export const ledCodes: Record<keyof LedState, string> = {
+    capsLock: 'CapsLock',
+    numLock: 'NumLock',
+    scrollLock: 'ScrollLock',
+};
+
 export class VkState {
     debug: {
         enabled: boolean;
@@ -14,12 +28,23 @@ export class VkState {
         keyDownKeys: new Set<string>(),
         activatedToggleKeys: new Set<string>(),
         repeatingKeys: new Set<string>(),
+        latchedModifierKeys: new Set<string>(),
+        // Keys held on a physical keyboard, when mirroring is enabled
+        physicalKeys: new Set<string>(),
     };
 
+    // Typed text replaces the characters after the caret, toggled with the Insert key
+    overwriteMode = false;
+
     isKeyDown = (code: string) => {
         return this.keys.keyDownKeys.has(code);
     };
 
+    // A modifier counts as held when it is down on either the virtual or the physical keyboard
+    isModifierHeld = (code: string) => {
+        return this.keys.keyDownKeys.has(code) || this.keys.physicalKeys.has(code);
+    };
+
     isToggleKeyActivated = (code: string) => {
         return this.keys.activatedToggleKeys.has(code);
     };
@@ -32,24 +57,59 @@ export class VkState {
         this.keys.activatedToggleKeys.delete(code);
     };
 
+    getLedState = (): LedState => {
+        return {
+            capsLock: this.isToggleKeyActivated(ledCodes.capsLock),
+            numLock: this.isToggleKeyActivated(ledCodes.numLock),
+            scrollLock: this.isToggleKeyActivated(ledCodes.scrollLock),
+        };
+    };
+
     getModifierState = (code: string) => {
         // For toggle keys like CapsLock, check activatedToggleKeys
         if (this.vkKeyboard.jsonLayout.isToggleKey(code)) {
             return this.keys.activatedToggleKeys.has(code);
         }
-        // For modifier keys like Shift, check keyDownKeys
+        // For modifier keys like Shift, check keyDownKeys and the physical keyboard
         else if (this.vkKeyboard.jsonLayout.isModifierKey(code)) {
-            return this.keys.keyDownKeys.has(code);
+            return this.isModifierHeld(code);
         }
         return false;
     };
 
+    // Ctrl, Alt or Meta turn a key press into a shortcut that inserts no text. AltRight is
+    // exempt when it acts as AltGr and the key has a character on the AltGr level.
+    hasShortcutModifierPressed = (code: string) => {
+        const isAltGraphCharacter = this.vkKeyboard.jsonLayout.getAltGraphKey(code) !== undefined;
+        return (
+            this.isModifierHeld('ControlLeft') ||
+            this.isModifierHeld('ControlRight') ||
+            this.isModifierHeld('AltLeft') ||
+            (this.isModifierHeld('AltRight') && !isAltGraphCharacter) ||
+            this.isModifierHeld('MetaLeft') ||
+            this.isModifierHeld('MetaRight')
+        );
+    };
+
     keyDown = (code: string) => {
         this.keys.keyDownKeys.add(code);
     };
 
     keyUp = (code: string) => {
         this.keys.keyDownKeys.delete(code);
+        this.keys.latchedModifierKeys.delete(code);
+    };
+
+    isModifierLatched = (code: string) => {
+        return this.keys.latchedModifierKeys.has(code);
+    };
+
+    setModifierLatched = (code: string, latched: boolean) => {
+        if (latched) {
+            this.keys.latchedModifierKeys.add(code);
+        } else {
+            this.keys.latchedModifierKeys.delete(code);
+        }
     };
 
     isKeyRepeating = (code: string) => {
@@ -1,6 +1,16 @@
 import type { VkKeyboard } from './vk-keyboard';
 import type { LayoutData } from './vk-json-layout';
 
+// Layouts may come from any URL, so their values are escaped before they become markup
+function escapeHtml(value: string) {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
 export class VkTemplate {
     constructor(vkKeyboard: VkKeyboard) {
         this.vkKeyboard = vkKeyboard;
@@ -14,7 +24,7 @@ export class VkTemplate {
         html += '<div class="vk-keyboard">';
         for (let i = 0; i < areas.length; i++) {
             const area = areas[i];
-            html += `<div class="vk-area vk-area-${area.name}">`;
+            html += `<div class="vk-area vk-area-${escapeHtml(area.name)}">`;
             for (let j = 0; j < area.rows.length; j++) {
                 const row = area.rows[j];
                 html += '<div class="vk-row">';
@@ -34,17 +44,27 @@ export class VkTemplate {
                     const isAlphabetic = this.vkKeyboard.jsonLayout.isAlphabetKey(code);
                     const shouldShowShiftedLabel =
                         shiftedLabel && !isAlphabetic && shiftedLabel !== key;
-                    const shouldShowNumLockedLabel =
-                        layout.numLocked?.keys?.[code] && layout.numLocked?.keys?.[code] !== key;
+                    const altGrLabel = layout.altGr?.keys?.[code];
+                    const shiftAltGrLabel = layout.shiftAltGr?.keys?.[code];
+                    const shouldShowShiftAltGrLabel =
+                        shiftAltGrLabel &&
+                        shiftAltGrLabel !== altGrLabel &&
+                        !(isAlphabetic && shiftAltGrLabel === altGrLabel?.toUpperCase());
+                    const numLockedLabel = layout.numLocked?.keys?.[code];
+                    const shouldShowNumLockedLabel = numLockedLabel && numLockedLabel !== key;
+
+                    const shape = layout.shapes?.[code];
 
                     html += `
                     <div aria-role="button"
-                    class="vk-key"
-                    data-code="${code}">
-                    ${shouldShowShiftedLabel ? `<div class="vk-label-shift">${shiftedLabel}</div>` : ''}
-                    ${shouldShowNumLockedLabel ? `<div class="vk-label-num-lock">${layout.numLocked?.keys?.[code]}</div>` : ''}
+                    class="vk-key${shape ? ` vk-key-${escapeHtml(shape)}` : ''}"
+                    data-code="${escapeHtml(code)}">
+                    ${shouldShowShiftedLabel ? `<div class="vk-label-shift">${escapeHtml(shiftedLabel)}</div>` : ''}
+                    ${shouldShowNumLockedLabel ? `<div class="vk-label-num-lock">${escapeHtml(numLockedLabel)}</div>` : ''}
+                    ${altGrLabel ? `<div class="vk-label-altgr">${escapeHtml(altGrLabel)}</div>` : ''}
+                    ${shouldShowShiftAltGrLabel ? `<div class="vk-label-shift-altgr">${escapeHtml(shiftAltGrLabel)}</div>` : ''}
 
-                    <div class="vk-label">${label}</div>
+                    <div class="vk-label">${escapeHtml(label)}</div>
                     
                     </div>
                     `;
@@ -53,6 +73,18 @@ export class VkTemplate {
             }
             html += '</div>';
         }
+        html += `
+        <div class="vk-indicators">
+            <button type="button" class="vk-native-keyboard-toggle" aria-label="Native keyboard" aria-pressed="false" hidden>&#x2328;</button>
+            <div class="vk-leds">
+                <div class="vk-led" data-led="NumLock" aria-label="Num Lock"><span class="vk-led-light"></span>Num</div>
+                <div class="vk-led" data-led="CapsLock" aria-label="Caps Lock"><span class="vk-led-light"></span>Caps</div>
+                <div class="vk-led" data-led="ScrollLock" aria-label="Scroll Lock"><span class="vk-led-light"></span>Scroll</div>
+                <div class="vk-led" data-led="Overwrite" aria-label="Overwrite"><span class="vk-led-light"></span>Ovr</div>
+            </div>
+        </div>
+        `;
+        html += '<div class="vk-candidate-strip" aria-live="polite" hidden></div>';
         html += '</div>';
         return html;
     }
@@ -0,0 +1,224 @@
+import type { VkKeyInfo, VkSink } from './vk-sinks';
+
+/** Terminal whose keyboard is emulated: VT100, VT220, or xterm with modifier-encoded keys. */
+export type TerminalMode = 'vt100' | 'vt220' | 'xterm';
+
+export interface TerminalOptions {
+    /** Defaults to `xterm`. */
+    mode?: TerminalMode;
+    /** Cursor keys send `ESC O A` instead of `ESC [ A`, as set by the host with DECCKM. */
+    applicationCursorKeys?: boolean;
+    /** The numeric keypad sends `ESC O` sequences instead of digits, as set by the host with DECKPAM. */
+    applicationKeypad?: boolean;
+}
+
+/**
+ * A sink created by {@link createTerminalSink}. Its modes can be changed while it is
+ * registered, e.g. when the host switches the cursor keys or keypad to application mode.
+ */
+export interface TerminalSink extends VkSink {
+    mode: TerminalMode;
+    applicationCursorKeys: boolean;
+    applicationKeypad: boolean;
+}
+
+const ESC = '\x1b';
+const CSI = `${ESC}[`;
+const SS3 = `${ESC}O`;
+
+// Final characters of the cursor keys, sent after CSI or, in application mode, SS3
+const cursorKeys: Record<string, string> = {
+    ArrowUp: 'A',
+    ArrowDown: 'B',
+    ArrowRight: 'C',
+    ArrowLeft: 'D',
+};
+
+// xterm sends Home and End like cursor keys
+const xtermCursorKeys: Record<string, string> = {
+    Home: 'H',
+    End: 'F',
+};
+
+// PF1-PF4 of the VT keypad, sent after SS3
+const pfKeys: Record<string, string> = {
+    F1: 'P',
+    F2: 'Q',
+    F3: 'R',
+    F4: 'S',
+};
+
+// Editing and function keys of the VT220 keyboard, sent as `CSI n ~`
+const tildeKeys: Record<string, number> = {
+    Home: 1,
+    Insert: 2,
+    Delete: 3,
+    End: 4,
+    PageUp: 5,
+    PageDown: 6,
+    F5: 15,
+    F6: 17,
+    F7: 18,
+    F8: 19,
+    F9: 20,
+    F10: 21,
+    F11: 23,
+    F12: 24,
+};
+
+// Final characters of the keypad keys in application keypad mode, sent after SS3
+const keypadKeys: Record<string, string> = {
+    Numpad0: 'p',
+    Numpad1: 'q',
+    Numpad2: 'r',
+    Numpad3: 's',
+    Numpad4: 't',
+    Numpad5: 'u',
+    Numpad6: 'v',
+    Numpad7: 'w',
+    Numpad8: 'x',
+    Numpad9: 'y',
+    NumpadDecimal: 'n',
+    NumpadComma: 'l',
+    NumpadSubtract: 'm',
+    NumpadAdd: 'k',
+    NumpadMultiply: 'j',
+    NumpadDivide: 'o',
+    NumpadEqual: 'X',
+    NumpadEnter: 'M',
+};
+
+// Control characters typed with Ctrl and a symbol or digit, as on a VT220 and in xterm
+const controlCharacters: Record<string, string> = {
+    ' ': '\x00',
+    '@': '\x00',
+    '2': '\x00',
+    '[': '\x1b',
+    '3': '\x1b',
+    '\\': '\x1c',
+    '4': '\x1c',
+    ']': '\x1d',
+    '5': '\x1d',
+    '^': '\x1e',
+    '6': '\x1e',
+    '~': '\x1e',
+    _: '\x1f',
+    '-': '\x1f',
+    '/': '\x1f',
+    '7': '\x1f',
+    '?': '\x7f',
+    '8': '\x7f',
+};
+
+function isCharacter(key: string) {
+    return Array.from(key).length === 1;
+}
+
+function getControlCharacter(char: string) {
+    const letter = char.toUpperCase();
+    if (letter >= 'A' && letter <= 'Z' && letter.length === 1) {
+        return String.fromCharCode(letter.charCodeAt(0) - 0x40);
+    }
+    return controlCharacters[char] ?? char;
+}
+
+// Alt and Meta send ESC ahead of the key
+function withEscPrefix(info: VkKeyInfo, sequence: string) {
+    return info.altKey || info.metaKey ? ESC + sequence : sequence;
+}
+
+/**
+ * Characters sent by a key press, or null if the key sends nothing (modifiers, toggle
+ * keys, dead keys and keys the terminal lacks). `info.key` is the key as resolved by the
+ * layout, so the numeric keypad sends cursor keys while NumLock is off.
+ */
+export function getTerminalSequence(
+    code: string,
+    info: VkKeyInfo,
+    options: TerminalOptions = {}
+): string | null {
+    const mode = options.mode ?? 'xterm';
+    const key = info.key;
+    // xterm reports modifiers of function keys as a parameter: 1 + Shift 1, Alt 2, Ctrl 4, Meta 8
+    const modifiers =
+        1 +
+        (info.shiftKey ? 1 : 0) +
+        (info.altKey ? 2 : 0) +
+        (info.ctrlKey ? 4 : 0) +
+        (info.metaKey ? 8 : 0);
+    const hasModifierParameter = mode === 'xterm' && modifiers > 1;
+
+    const keypadKey = keypadKeys[code];
+    if (options.applicationKeypad && keypadKey && (isCharacter(key) || key === 'Enter')) {
+        return SS3 + keypadKey;
+    }
+
+    const cursorKey = cursorKeys[key] ?? (mode === 'xterm' ? xtermCursorKeys[key] : undefined);
+    if (cursorKey) {
+        if (hasModifierParameter) return `${CSI}1;${modifiers}${cursorKey}`;
+        return withEscPrefix(info, (options.applicationCursorKeys ? SS3 : CSI) + cursorKey);
+    }
+
+    const pfKey = pfKeys[key];
+    if (pfKey) {
+        if (hasModifierParameter) return `${CSI}1;${modifiers}${pfKey}`;
+        return withEscPrefix(info, SS3 + pfKey);
+    }
+
+    switch (key) {
+        case 'Enter':
+            return withEscPrefix(info, '\r');
+        case 'Tab':
+            return withEscPrefix(info, info.shiftKey && mode !== 'vt100' ? `${CSI}Z` : '\t');
+        case 'Escape':
+            return withEscPrefix(info, ESC);
+        case 'Backspace':
+            // A VT100 sends BS; a VT220 and xterm send DEL, or BS with Ctrl
+            return withEscPrefix(info, (mode === 'vt100') !== info.ctrlKey ? '\b' : '\x7f');
+    }
+
+    const tildeKey = tildeKeys[key];
+    if (tildeKey !== undefined) {
+        // The VT100 keyboard has only a Delete key, which sends DEL
+        if (mode === 'vt100') return key === 'Delete' ? withEscPrefix(info, '\x7f') : null;
+        if (hasModifierParameter) return `${CSI}${tildeKey};${modifiers}~`;
+        return withEscPrefix(info, `${CSI}${tildeKey}~`);
+    }
+
+    if (!isCharacter(key)) return null;
+    return withEscPrefix(info, info.ctrlKey ? getControlCharacter(key) : key);
+}
+
+// Characters typed without Ctrl, Alt or Meta are sent on keypress, which carries the
+// finished character of dead key and Compose sequences; all other keys on keydown
+function isSentOnKeyPress(code: string, info: VkKeyInfo, options: TerminalOptions) {
+    const hasModifier = info.ctrlKey || info.altKey || info.metaKey;
+    const isKeypadSequence = options.applicationKeypad && code in keypadKeys;
+    return isCharacter(info.key) && !hasModifier && !isKeypadSequence;
+}
+
+/**
+ * Create an output sink that turns every virtual press and repeat into the characters
+ * a VT100, VT220 or xterm keyboard sends, for `keyboard.addSink()`.
+ */
+export function createTerminalSink(
+    onData: (data: string, code: string, info: VkKeyInfo) => void,
+    options: TerminalOptions = {}
+): TerminalSink {
+    const sink: TerminalSink = {
+        mode: options.mode ?? 'xterm',
+        applicationCursorKeys: options.applicationCursorKeys ?? false,
+        applicationKeypad: options.applicationKeypad ?? false,
+        keyDown(code, info) {
+            if (isSentOnKeyPress(code, info, sink)) return;
+            const data = getTerminalSequence(code, info, sink);
+            if (data) onData(data, code, info);
+        },
+        keyPress(code, info) {
+            if (!isSentOnKeyPress(code, info, sink)) return;
+            const data = getTerminalSequence(code, info, sink);
+            if (data) onData(data, code, info);
+        },
+    };
+    return sink;
+}
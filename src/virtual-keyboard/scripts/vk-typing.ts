@@ -0,0 +1,225 @@
+import type { VkKeyboard } from './vk-keyboard';
+import type { LayoutData } from './vk-json-layout';
+
+export interface TypeTextOptions {
+    /** Milliseconds between successive key events (default 20). */
+    delay?: number;
+    /** Abort typing; held keys are released and the promise rejects with the abort reason. */
+    signal?: AbortSignal;
+}
+
+export interface TypeTextResult {
+    /** Characters the active layout cannot produce, with their offset in the text. They are skipped. */
+    unmappedCharacters: Array<{ character: string; index: number }>;
+}
+
+/** A key press needed to type a character, with the modifiers to hold around it. */
+export interface Keystroke {
+    code: string;
+    shift: boolean;
+    altGr: boolean;
+}
+
+// Control characters typed with a key of their own
+const controlCharacterCodes: Record<string, string> = {
+    '\r': 'Enter',
+    '\n': 'Enter',
+    '\t': 'Tab',
+    '\b': 'Backspace',
+    '\x1b': 'Escape',
+};
+
+export class VkTyping {
+    constructor(vkKeyboard: VkKeyboard) {
+        this.vkKeyboard = vkKeyboard;
+    }
+    vkKeyboard!: VkKeyboard;
+
+    // Calls to typeText() run one after another
+    private queue: Promise<unknown> = Promise.resolve();
+    private keystrokeMap: Map<string, Keystroke[]> = new Map();
+    private mappedLayout: LayoutData | null = null;
+
+    typeText(text: string, options: TypeTextOptions = {}): Promise<TypeTextResult> {
+        // Rejects at once rather than after the typing queued before it
+        if (options.signal?.aborted) {
+            return Promise.reject(options.signal.reason);
+        }
+        const run = this.queue.then(() => this.run(text, options));
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    /** Keystrokes that produce a character on the active layout, or null if there are none. */
+    getKeystrokes(character: string): Keystroke[] | null {
+        const layoutData = this.vkKeyboard.jsonLayout.layoutData;
+        if (!layoutData) return null;
+        if (layoutData !== this.mappedLayout) {
+            this.keystrokeMap = this.buildKeystrokeMap(layoutData);
+            this.mappedLayout = layoutData;
+        }
+        return this.keystrokeMap.get(character) ?? null;
+    }
+
+    private buildKeystrokeMap(layoutData: LayoutData) {
+        const map = new Map<string, Keystroke[]>();
+        const jsonLayout = this.vkKeyboard.jsonLayout;
+        const codes = layoutData.areas
+            .flatMap((area) => area.rows.flat())
+            .filter(
+                (code) =>
+                    code !== '__placeholder__' &&
+                    !jsonLayout.isModifierKey(code) &&
+                    !jsonLayout.isToggleKey(code)
+            );
+
+        // Lower levels first, so that e.g. "1" is typed without Shift where possible
+        const levels: Array<[Record<string, string> | undefined, boolean, boolean]> = [
+            [layoutData.keys, false, false],
+            [layoutData.shifted?.keys, true, false],
+            [layoutData.altGr?.keys, false, true],
+            [layoutData.shiftAltGr?.keys, true, true],
+        ];
+        const deadKeyStrokes: Array<[string, Keystroke]> = [];
+        for (const [keys, shift, altGr] of levels) {
+            if (!keys) continue;
+            for (const code of codes) {
+                const character = keys[code];
+                if (!character || Array.from(character).length !== 1) continue;
+                const keystroke = { code, shift, altGr };
+                if (layoutData.deadKeys?.[character]) {
+                    deadKeyStrokes.push([character, keystroke]);
+                } else if (!map.has(character)) {
+                    map.set(character, [keystroke]);
+                }
+            }
+        }
+
+        // A dead key followed by Space types the dead character itself, and followed
+        // by a base character types the combined one
+        for (const [deadKey, keystroke] of deadKeyStrokes) {
+            if (!map.has(deadKey) && map.has(' ')) {
+                map.set(deadKey, [keystroke, ...map.get(' ')!]);
+            }
+        }
+        for (const [deadKey, keystroke] of deadKeyStrokes) {
+            for (const [base, combined] of Object.entries(layoutData.deadKeys![deadKey])) {
+                if (!map.has(combined) && map.has(base)) {
+                    map.set(combined, [keystroke, ...map.get(base)!]);
+                }
+            }
+        }
+
+        for (const [character, code] of Object.entries(controlCharacterCodes)) {
+            if (code in layoutData.keys && !map.has(character)) {
+                map.set(character, [{ code, shift: false, altGr: false }]);
+            }
+        }
+        return map;
+    }
+
+    private async run(text: string, options: TypeTextOptions): Promise<TypeTextResult> {
+        const { delay = 20, signal } = options;
+        const unmappedCharacters: TypeTextResult['unmappedCharacters'] = [];
+        const userOperation = this.vkKeyboard.userOperation;
+
+        signal?.throwIfAborted();
+        // Start from a clean state so that latched modifiers don't change the typed characters
+        userOperation.releaseAllKeys();
+
+        // Keys this run holds down; any left over when typing is aborted midway are released,
+        // leaving keys pressed on the virtual keyboard meanwhile alone
+        const heldKeys = new Set<string>();
+        try {
+            let index = 0;
+            let previous = '';
+            for (const character of text) {
+                const characterIndex = index;
+                index += character.length;
+                // "\r\n" is a single Enter
+                const isLineFeedAfterReturn = character === '\n' && previous === '\r';
+                previous = character;
+                if (isLineFeedAfterReturn) continue;
+
+                const keystrokes = this.getKeystrokes(character);
+                if (!keystrokes) {
+                    unmappedCharacters.push({ character, index: characterIndex });
+                    continue;
+                }
+                for (const keystroke of keystrokes) {
+                    await this.typeKeystroke(keystroke, delay, heldKeys, signal);
+                }
+            }
+        } finally {
+            for (const code of Array.from(heldKeys).reverse()) {
+                userOperation.keyUp(code);
+            }
+        }
+        return { unmappedCharacters };
+    }
+
+    /** Modifier keys to hold around a keystroke, in press order. */
+    getModifierCodes(keystroke: Keystroke): string[] {
+        const jsonLayout = this.vkKeyboard.jsonLayout;
+        const isCapsLock = this.vkKeyboard.state.isToggleKeyActivated('CapsLock');
+        // CapsLock inverts Shift for letters
+        const shift =
+            isCapsLock && jsonLayout.isAlphabetKey(keystroke.code)
+                ? !keystroke.shift
+                : keystroke.shift;
+
+        const modifiers: string[] = [];
+        const shiftCode = ['ShiftLeft', 'ShiftRight'].find((code) =>
+            jsonLayout.isModifierKey(code)
+        );
+        if (shift && shiftCode) modifiers.push(shiftCode);
+        if (keystroke.altGr) modifiers.push('AltRight');
+        return modifiers;
+    }
+
+    private async typeKeystroke(
+        keystroke: Keystroke,
+        delay: number,
+        heldKeys: Set<string>,
+        signal?: AbortSignal
+    ) {
+        const userOperation = this.vkKeyboard.userOperation;
+        const modifiers = this.getModifierCodes(keystroke);
+
+        for (const modifier of modifiers) {
+            userOperation.keyDown(modifier);
+            heldKeys.add(modifier);
+            await this.pause(delay, signal);
+        }
+        userOperation.pressRegularKey(keystroke.code);
+        heldKeys.add(keystroke.code);
+        await this.pause(delay, signal);
+        userOperation.keyUp(keystroke.code);
+        heldKeys.delete(keystroke.code);
+        for (const modifier of modifiers.reverse()) {
+            await this.pause(delay, signal);
+            userOperation.keyUp(modifier);
+            heldKeys.delete(modifier);
+        }
+        await this.pause(delay, signal);
+    }
+
+    // Wait between key events; an abort rejects at once instead of when the delay is over
+    private pause(delay: number, signal?: AbortSignal) {
+        return new Promise<void>((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(signal.reason);
+                return;
+            }
+            const handleAbort = () => {
+                clearTimeout(timer);
+                reject(signal!.reason);
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', handleAbort);
+                resolve();
+            }, delay);
+            signal?.addEventListener('abort', handleAbort, { once: true });
+        });
+    }
+}
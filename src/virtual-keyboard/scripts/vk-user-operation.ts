@@ -1,4 +1,13 @@
 import type { VkKeyboard } from './vk-keyboard';
+import { ledCodes } from './vk-state';
+import type { LedState } from './vk-state';
+
+/**
+ * How tapped modifier keys behave: `one-shot` releases them after the next key, `latch`
+ * also locks a modifier tapped twice until it is tapped again, and `hold` keeps them down
+ * only while they are pressed.
+ */
+export type ModifierMode = 'one-shot' | 'latch' | 'hold';
 
 export class VkUserOperation {
     constructor(vkKeyboard: VkKeyboard) {
@@ -15,10 +24,17 @@ export class VkUserOperation {
     } as const;
 
     // Repeat-related properties
-    private repeatInterval: number = 50; // Repeat interval (milliseconds)
-    private repeatDelay: number = 500; // Repeat start delay (milliseconds)
     private repeatTimers: Map<string, { delayTimer?: number; intervalTimer?: number }> = new Map();
 
+    // A modifier tapped again within this time is latched (milliseconds)
+    private doubleTapDelay: number = 400;
+    private lastModifierTap: { code: string; time: number } | null = null;
+
+    // Key pressed by each active pointer, so that every finger is released on its own
+    private activePointers: Map<number, string> = new Map();
+    // Keys touched beyond the rollover limit, which send no events until released
+    private droppedKeys: Set<string> = new Set();
+
     // Stored element listeners for cleanup
     private elementListeners: Array<{ element: Element; type: string; handler: EventListener }> = [];
 
@@ -56,17 +72,18 @@ export class VkUserOperation {
         const code = vkKey.getAttribute('data-code') || '';
         const keyType = this.determineKeyType(code);
 
-        const pointerDownHandler = this.createPointerDownHandler(code, keyType);
+        const pointerDownHandler = this.createPointerDownHandler(vkKey, code, keyType);
         const pointerReleaseHandler = this.createPointerReleaseHandler(code, keyType);
 
         vkKey.addEventListener('pointerdown', pointerDownHandler);
-        vkKey.addEventListener('pointerup', pointerReleaseHandler);
-        vkKey.addEventListener('pointerleave', pointerReleaseHandler);
+        // With pointer capture, pointerleave only follows pointerup; lostpointercapture and
+        // pointercancel cover a touch taken over by the browser
+        const releaseEvents = ['pointerup', 'pointercancel', 'lostpointercapture', 'pointerleave'];
+        releaseEvents.forEach((type) => vkKey.addEventListener(type, pointerReleaseHandler));
 
         this.elementListeners.push(
             { element: vkKey, type: 'pointerdown', handler: pointerDownHandler },
-            { element: vkKey, type: 'pointerup', handler: pointerReleaseHandler },
-            { element: vkKey, type: 'pointerleave', handler: pointerReleaseHandler },
+            ...releaseEvents.map((type) => ({ element: vkKey, type, handler: pointerReleaseHandler })),
         );
     }
 
@@ -80,8 +97,18 @@ export class VkUserOperation {
         }
     }
 
-    private createPointerDownHandler(code: string, keyType: string) {
-        return (_event: Event) => {
+    private createPointerDownHandler(vkKey: Element, code: string, keyType: string) {
+        return (event: Event) => {
+            const { pointerId } = event as PointerEvent;
+            if (this.activePointers.has(pointerId)) return;
+            this.activePointers.set(pointerId, code);
+            // Keep the key pressed while the finger slides off it, until it is lifted
+            try {
+                vkKey.setPointerCapture(pointerId);
+            } catch {
+                // The pointer is no longer active, e.g. for synthetic events
+            }
+
             switch (keyType) {
                 case this.KEY_TYPES.MODIFIER:
                     this.handleModifierKeyDown(code);
@@ -97,11 +124,21 @@ export class VkUserOperation {
     }
 
     private createPointerReleaseHandler(code: string, keyType: string) {
-        return (_event: Event) => {
+        return (event: Event) => {
+            const { pointerId } = event as PointerEvent;
+            // Ignore pointers that did not press this key, and the release events that
+            // follow the first one for the same pointer
+            if (this.activePointers.get(pointerId) !== code) return;
+            this.activePointers.delete(pointerId);
+            // Another finger is still on this key
+            if (Array.from(this.activePointers.values()).includes(code)) return;
+
             switch (keyType) {
                 case this.KEY_TYPES.MODIFIER:
+                    this.handleModifierKeyRelease(code);
+                    break;
                 case this.KEY_TYPES.TOGGLE:
-                    // Modifier and toggle keys: no action on pointerup/pointerleave
+                    // Toggle keys: no action on pointerup/pointerleave
                     break;
                 case this.KEY_TYPES.REGULAR:
                     this.handleRegularKeyRelease(code);
@@ -111,18 +148,64 @@ export class VkUserOperation {
     }
 
     private handleModifierKeyDown(code: string) {
-        // Modifier keys: toggle state on pointerdown (press if released, release if pressed)
+        switch (this.vkKeyboard.modifierMode) {
+            case 'hold':
+                // Held modifiers: press on pointerdown, release on pointerup/pointerleave
+                if (!this.vkKeyboard.state.isKeyDown(code)) {
+                    this.pressModifierKey(code, 'held');
+                }
+                break;
+            case 'latch':
+                this.handleLatchingModifierKeyDown(code);
+                break;
+            default:
+                // Modifier keys: toggle state on pointerdown (press if released, release if pressed)
+                if (!this.vkKeyboard.state.isKeyDown(code)) {
+                    this.pressModifierKey(code, 'one-shot');
+                } else {
+                    this.releaseModifierKey(code);
+                }
+                break;
+        }
+    }
+
+    private handleLatchingModifierKeyDown(code: string) {
+        // First tap works as one-shot, a second tap in time latches the modifier until
+        // it is tapped once more
+        const now = performance.now();
+        const lastTap = this.lastModifierTap;
+        const isDoubleTap = lastTap?.code === code && now - lastTap.time <= this.doubleTapDelay;
+        this.lastModifierTap = { code, time: now };
+
         if (!this.vkKeyboard.state.isKeyDown(code)) {
-            this.keyDown(code);
-            // Add visual state update, especially for Shift key
-            this.updateModifierKeyVisualState(code, true);
+            this.pressModifierKey(code, 'one-shot');
+        } else if (isDoubleTap && !this.vkKeyboard.state.isModifierLatched(code)) {
+            this.vkKeyboard.state.setModifierLatched(code, true);
+            this.vkKeyboard.visual.modifierKey(code, 'latched');
         } else {
-            this.keyUp(code);
-            // Add visual state update, especially for Shift key
-            this.updateModifierKeyVisualState(code, false);
+            this.releaseModifierKey(code);
         }
     }
 
+    private handleModifierKeyRelease(code: string) {
+        if (this.vkKeyboard.modifierMode === 'hold' && this.vkKeyboard.state.isKeyDown(code)) {
+            this.releaseModifierKey(code);
+        }
+    }
+
+    private pressModifierKey(code: string, visualState: 'one-shot' | 'held') {
+        this.keyDown(code);
+        this.vkKeyboard.visual.modifierKey(code, visualState);
+        // Add visual state update, especially for Shift key
+        this.updateModifierKeyVisualState(code, true);
+    }
+
+    private releaseModifierKey(code: string) {
+        this.keyUp(code);
+        // Add visual state update, especially for Shift key
+        this.updateModifierKeyVisualState(code, false);
+    }
+
     private handleToggleKeyDown(code: string) {
         // Toggle keys: toggle state on pointerdown and generate keydown and keyup events
         if (!this.vkKeyboard.state.isToggleKeyActivated(code)) {
@@ -141,6 +224,7 @@ export class VkUserOperation {
 
         // Update special toggle key visual states
         this.updateToggleKeyVisualState(code, true);
+        this.dispatchLedChange(code);
     }
 
     private deactivateToggleKey(code: string) {
@@ -152,6 +236,19 @@ export class VkUserOperation {
 
         // Update special toggle key visual states
         this.updateToggleKeyVisualState(code, false);
+        this.dispatchLedChange(code);
+    }
+
+    // Tell the host that the user changed a lock state, so it can update the guest
+    private dispatchLedChange(code: string) {
+        if (!Object.values(ledCodes).includes(code)) return;
+        this.vkKeyboard.dispatchEvent(
+            new CustomEvent<LedState>('vk-led-change', {
+                detail: this.vkKeyboard.state.getLedState(),
+                bubbles: true,
+                composed: true,
+            })
+        );
     }
 
     private updateToggleKeyVisualState(code: string, activated: boolean) {
@@ -165,39 +262,123 @@ export class VkUserOperation {
     private updateModifierKeyVisualState(code: string, activated: boolean) {
         if (code === 'ShiftLeft' || code === 'ShiftRight') {
             this.vkKeyboard.visual.shiftKeyboard(activated);
+        } else if (code === 'AltRight') {
+            this.vkKeyboard.visual.altGraphKeyboard(activated);
         }
     }
 
+    // Regular keys held at the moment, excluding modifiers and toggle keys
+    private getHeldRegularKeys() {
+        return Array.from(this.vkKeyboard.state.keys.keyDownKeys).filter(
+            (code) =>
+                !this.vkKeyboard.jsonLayout.isModifierKey(code) &&
+                !this.vkKeyboard.jsonLayout.isToggleKey(code)
+        );
+    }
+
     private handleRegularKeyDown(code: string) {
         // Regular keys: press on pointerdown, support repeat
         if (!this.vkKeyboard.state.isKeyDown(code)) {
+            // Like a keyboard without full rollover, keys beyond the limit are not reported
+            if (this.getHeldRegularKeys().length >= this.vkKeyboard.rolloverLimit) {
+                this.droppedKeys.add(code);
+                this.vkKeyboard.visual.droppedKey(code, true);
+                return;
+            }
+            // Only the most recently pressed key repeats, as on a real keyboard
+            this.stopAllRepeat();
+            // Dead keys and the Compose key only change the compose state, so they don't repeat
+            const isComposeTrigger =
+                this.vkKeyboard.compose.isDeadKey(code) ||
+                this.vkKeyboard.compose.isComposeKey(code);
             this.executeRegularKeyDown(code);
-            this.startRepeat(code);
+            if (!isComposeTrigger) {
+                this.startRepeat(code);
+            }
+        }
+    }
+
+    // Press a regular key once, without auto-repeat (e.g. for typed text)
+    pressRegularKey(code: string) {
+        this.executeRegularKeyDown(code);
+    }
+
+    // Replay a recorded press the way a pointer press would handle it, without auto-repeat
+    replayKeyDown(code: string, repeat: boolean) {
+        switch (this.determineKeyType(code)) {
+            case this.KEY_TYPES.MODIFIER:
+                if (!this.vkKeyboard.state.isKeyDown(code)) {
+                    this.keyDown(code);
+                    this.updateModifierKeyVisualState(code, true);
+                }
+                break;
+            case this.KEY_TYPES.TOGGLE:
+                this.handleToggleKeyDown(code);
+                break;
+            case this.KEY_TYPES.REGULAR:
+                if (repeat) {
+                    this.vkKeyboard.state.setKeyRepeating(code, true);
+                    this.executeRepeatAction(code);
+                } else {
+                    this.executeRegularKeyDown(code);
+                }
+                break;
+        }
+    }
+
+    // Replay a recorded release. Toggle keys release themselves when tapped.
+    replayKeyUp(code: string) {
+        if (!this.vkKeyboard.state.isKeyDown(code) || this.vkKeyboard.jsonLayout.isToggleKey(code)) {
+            return;
+        }
+        this.vkKeyboard.state.setKeyRepeating(code, false);
+        this.keyUp(code);
+        if (this.vkKeyboard.jsonLayout.isModifierKey(code)) {
+            this.updateModifierKeyVisualState(code, false);
+        }
+    }
+
+    private commitComposedText(code: string, text: string) {
+        if (!text) return;
+        const notCancelled = this.vkKeyboard.eventDispatcher.keyPress(code, text);
+        if (notCancelled && this.vkKeyboard.editing.isEditable()) {
+            this.vkKeyboard.editing.commitText(text);
         }
     }
 
     private executeRegularKeyDown(code: string) {
-        this.keyDown(code);
+        // A cancelled keydown suppresses everything the key would do, as in browsers
+        if (!this.keyDown(code)) {
+            return;
+        }
+        // The IME takes keys while kana input is on or text is being composed
+        if (this.vkKeyboard.ime.processKey(code)) {
+            return;
+        }
+        // Dead keys and Compose sequences only commit the finished text
+        const composedText = this.vkKeyboard.compose.processKey(code);
+        if (composedText !== null) {
+            this.commitComposedText(code, composedText);
+            return;
+        }
         // If printable character and element is editable, execute keypress event
         if (this.vkKeyboard.jsonLayout.isPrintableKey(code)) {
             // Only execute keypress and editing if no modifier keys are pressed
-            const hasModifierPressed =
-                this.vkKeyboard.state.isKeyDown('ControlLeft') ||
-                this.vkKeyboard.state.isKeyDown('ControlRight') ||
-                this.vkKeyboard.state.isKeyDown('AltLeft') ||
-                this.vkKeyboard.state.isKeyDown('AltRight') ||
-                this.vkKeyboard.state.isKeyDown('MetaLeft') ||
-                this.vkKeyboard.state.isKeyDown('MetaRight');
+            const hasModifierPressed = this.vkKeyboard.state.hasShortcutModifierPressed(code);
 
             if (!hasModifierPressed) {
-                this.keyPress(code);
-                if (this.vkKeyboard.editing.isEditable()) {
+                // A cancelled keypress suppresses the character
+                if (this.keyPress(code) && this.vkKeyboard.editing.isEditable()) {
                     this.vkKeyboard.editing.keyDown(code);
                 }
-            } else {
-                // Still dispatch key events even if modifier is pressed, but don't insert text or keypress
-                // Only dispatch keyDown and keyUp events for the combination
-                // No keypress event should be generated when modifiers are active
+            } else if (this.vkKeyboard.editing.isEditable()) {
+                // No keypress or text with modifiers, but shortcuts such as Ctrl+C apply
+                this.vkKeyboard.editing.keyDown(code);
+            }
+        } else if (this.isEnterKeyPress(code)) {
+            // Enter has a keypress of its own; cancelling it suppresses the line break
+            if (this.keyPress(code) && this.vkKeyboard.editing.isEditable()) {
+                this.vkKeyboard.editing.keyDown(code);
             }
         } else if (this.vkKeyboard.editing.isEditable()) {
             this.vkKeyboard.editing.keyDown(code);
@@ -205,28 +386,53 @@ export class VkUserOperation {
     }
 
     private handleRegularKeyRelease(code: string) {
+        if (this.droppedKeys.delete(code)) {
+            this.vkKeyboard.visual.droppedKey(code, false);
+            return;
+        }
         // Regular keys: release on pointerup/pointerleave (only if currently pressed)
         if (this.vkKeyboard.state.isKeyDown(code)) {
             this.stopRepeat(code);
             this.keyUp(code);
-            this.keyUpAllModifierKeys();
+            // One-shot modifiers apply until the last held key is released; held modifiers
+            // stay down until their own pointer is lifted
+            if (
+                this.vkKeyboard.modifierMode !== 'hold' &&
+                this.getHeldRegularKeys().length === 0
+            ) {
+                this.keyUpAllModifierKeys();
+            }
         }
     }
 
+    // Returns false when the keydown event was cancelled
     keyDown(code: string) {
         const isRepeating = this.vkKeyboard.state.isKeyRepeating(code);
-        this.vkKeyboard.eventDispatcher.keyDown(code, isRepeating);
+        this.vkKeyboard.macro.recordKeyDown(code, isRepeating);
+        const notCancelled = this.vkKeyboard.eventDispatcher.keyDown(code, isRepeating);
         this.vkKeyboard.visual.keyDown(code);
         this.vkKeyboard.state.keyDown(code);
+        return notCancelled;
     }
 
+    // Enter fires keypress like a character key, but not with shortcut modifiers such as Ctrl
+    private isEnterKeyPress(code: string) {
+        return (
+            this.vkKeyboard.jsonLayout.getKeyItemByCode(code)?.key === 'Enter' &&
+            !this.vkKeyboard.state.hasShortcutModifierPressed(code)
+        );
+    }
+
+    // Returns false when the keypress event was cancelled
     keyPress(code: string) {
-        if (this.vkKeyboard.jsonLayout.isPrintableKey(code)) {
-            this.vkKeyboard.eventDispatcher.keyPress(code);
+        if (this.vkKeyboard.jsonLayout.isPrintableKey(code) || this.isEnterKeyPress(code)) {
+            return this.vkKeyboard.eventDispatcher.keyPress(code);
         }
+        return true;
     }
 
     keyUp(code: string) {
+        this.vkKeyboard.macro.recordKeyUp(code);
         this.vkKeyboard.eventDispatcher.keyUp(code);
         this.vkKeyboard.visual.keyUp(code);
         this.vkKeyboard.state.keyUp(code);
@@ -237,13 +443,12 @@ export class VkUserOperation {
         vkKeys.forEach((vkKey: Element) => {
             const code = vkKey.getAttribute('data-code') || '';
             if (this.vkKeyboard.state.isKeyDown(code)) {
-                this.vkKeyboard.eventDispatcher.keyUp(code);
-                this.vkKeyboard.visual.keyUp(code);
-                this.vkKeyboard.state.keyUp(code);
+                this.keyUp(code);
             }
         });
     }
 
+    // Release one-shot modifiers; latched ones stay down until tapped again
     keyUpAllModifierKeys() {
         const vkKeys = this.vkKeyboard.getRoot().querySelectorAll('.vk-key');
         vkKeys.forEach((vkKey: Element) => {
@@ -251,18 +456,39 @@ export class VkUserOperation {
 
             if (
                 this.vkKeyboard.jsonLayout.isModifierKey(code) &&
-                this.vkKeyboard.state.isKeyDown(code)
+                this.vkKeyboard.state.isKeyDown(code) &&
+                !this.vkKeyboard.state.isModifierLatched(code)
             ) {
-                this.vkKeyboard.eventDispatcher.keyUp(code);
-                this.vkKeyboard.visual.keyUp(code);
-                this.vkKeyboard.state.keyUp(code);
+                this.keyUp(code);
                 if (code === 'ShiftLeft' || code === 'ShiftRight') {
                     this.vkKeyboard.visual.shiftKeyboard(false);
+                } else if (code === 'AltRight') {
+                    this.vkKeyboard.visual.altGraphKeyboard(false);
                 }
             }
         });
     }
 
+    // Release every held key, e.g. before the template is replaced. Toggle keys already
+    // dispatched their keyup when tapped, so only their pressed state is cleared.
+    releaseAllKeys() {
+        this.stopAllRepeat();
+        this.activePointers.clear();
+        this.droppedKeys.forEach((code) => this.vkKeyboard.visual.droppedKey(code, false));
+        this.droppedKeys.clear();
+        this.vkKeyboard.compose.reset();
+        this.vkKeyboard.ime.cancel();
+        for (const code of Array.from(this.vkKeyboard.state.keys.keyDownKeys)) {
+            if (this.vkKeyboard.jsonLayout.isToggleKey(code)) {
+                this.vkKeyboard.state.keyUp(code);
+            } else {
+                this.keyUp(code);
+            }
+        }
+        this.vkKeyboard.visual.shiftKeyboard(false);
+        this.vkKeyboard.visual.altGraphKeyboard(false);
+    }
+
     pressKeyButDispatchKeyDownAndKeyUpEvent(code: string) {
         this.keyDown(code);
         this.vkKeyboard.eventDispatcher.keyUp(code);
@@ -277,6 +503,15 @@ export class VkUserOperation {
     private startRepeat(code: string) {
         // Clear previous timers
         this.stopRepeat(code);
+        if (
+            !this.vkKeyboard.jsonLayout.isRepeatableKey(code) ||
+            this.vkKeyboard.sinks.leavesRepeatToGuest
+        ) {
+            return;
+        }
+        // Read at press time, so changed settings apply from the next press
+        const repeatDelay = this.vkKeyboard.repeatDelay;
+        const repeatInterval = 1000 / this.vkKeyboard.repeatRate;
 
         const timers = { delayTimer: 0, intervalTimer: 0 };
         this.repeatTimers.set(code, timers);
@@ -292,8 +527,8 @@ export class VkUserOperation {
             // Then start interval repeat
             timers.intervalTimer = window.setInterval(() => {
                 this.executeRepeatAction(code);
-            }, this.repeatInterval);
-        }, this.repeatDelay);
+            }, repeatInterval);
+        }, repeatDelay);
     }
 
     // Stop repeat
@@ -330,26 +565,34 @@ export class VkUserOperation {
     // Execute repeat action
     private executeRepeatAction(code: string) {
         // During repeat: only execute keydown and keypress (no keyup)
-        this.keyDown(code);
+        if (!this.keyDown(code)) {
+            return;
+        }
+        if (this.vkKeyboard.ime.processKey(code)) {
+            return;
+        }
+        const composedText = this.vkKeyboard.compose.processKey(code);
+        if (composedText !== null) {
+            this.commitComposedText(code, composedText);
+            return;
+        }
         if (this.vkKeyboard.jsonLayout.isPrintableKey(code)) {
             // Only execute keypress and editing if no modifier keys are pressed
-            const hasModifierPressed =
-                this.vkKeyboard.state.isKeyDown('ControlLeft') ||
-                this.vkKeyboard.state.isKeyDown('ControlRight') ||
-                this.vkKeyboard.state.isKeyDown('AltLeft') ||
-                this.vkKeyboard.state.isKeyDown('AltRight') ||
-                this.vkKeyboard.state.isKeyDown('MetaLeft') ||
-                this.vkKeyboard.state.isKeyDown('MetaRight');
+            const hasModifierPressed = this.vkKeyboard.state.hasShortcutModifierPressed(code);
 
             if (!hasModifierPressed) {
-                this.keyPress(code);
-                if (this.vkKeyboard.editing.isEditable()) {
+                // A cancelled keypress suppresses the character
+                if (this.keyPress(code) && this.vkKeyboard.editing.isEditable()) {
                     this.vkKeyboard.editing.keyDown(code);
                 }
-            } else {
-                // Still dispatch key events even if modifier is pressed, but don't insert text or keypress
-                // Only dispatch keyDown and keyUp events for the combination
-                // No keypress event should be generated when modifiers are active
+            } else if (this.vkKeyboard.editing.isEditable()) {
+                // No keypress or text with modifiers, but shortcuts such as Ctrl+C apply
+                this.vkKeyboard.editing.keyDown(code);
+            }
+        } else if (this.isEnterKeyPress(code)) {
+            // Enter has a keypress of its own; cancelling it suppresses the line break
+            if (this.keyPress(code) && this.vkKeyboard.editing.isEditable()) {
+                this.vkKeyboard.editing.keyDown(code);
             }
         } else if (this.vkKeyboard.editing.isEditable()) {
             this.vkKeyboard.editing.keyDown(code);
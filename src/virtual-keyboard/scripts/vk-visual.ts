@@ -1,23 +1,92 @@
 import type { VkKeyboard } from './vk-keyboard';
 
+const modifierClasses = {
+    'one-shot': 'vk-modifier-one-shot',
+    latched: 'vk-modifier-latched',
+    held: 'vk-modifier-held',
+};
+
 export class VkVisual {
     constructor(vkKeyboard: VkKeyboard) {
         this.vkKeyboard = vkKeyboard;
     }
     vkKeyboard!: VkKeyboard;
 
+    private getKeyElement(code: string) {
+        return this.vkKeyboard
+            .getRoot()
+            .querySelector(`[data-code="${CSS.escape(code)}"]`) as HTMLElement | null;
+    }
+
     keyDown(code: string) {
-        const vkKey = this.vkKeyboard.getRoot().querySelector(`[data-code="${code}"]`) as HTMLElement;
+        const vkKey = this.getKeyElement(code);
+        if (!vkKey) return;
         vkKey.classList.add('vk-key-down');
         vkKey.setAttribute('aria-pressed', 'true');
     }
 
     keyUp(code: string) {
-        const vkKey = this.vkKeyboard.getRoot().querySelector(`[data-code="${code}"]`) as HTMLElement;
-        vkKey.classList.remove('vk-key-down');
+        const vkKey = this.getKeyElement(code);
+        if (!vkKey) return;
+        vkKey.classList.remove('vk-key-down', ...Object.values(modifierClasses));
         vkKey.removeAttribute('aria-pressed');
     }
 
+    // Mark how a pressed modifier will be released; keyUp() clears it
+    modifierKey(code: string, state: keyof typeof modifierClasses) {
+        const vkKey = this.getKeyElement(code);
+        if (!vkKey) return;
+        vkKey.classList.remove(...Object.values(modifierClasses));
+        vkKey.classList.add(modifierClasses[state]);
+    }
+
+    // A key held on a mirrored physical keyboard
+    physicalKey(code: string, down: boolean) {
+        const vkKey = this.getKeyElement(code);
+        if (!vkKey) return;
+        vkKey.classList.toggle('vk-key-physical', down);
+    }
+
+    // A key touched beyond the rollover limit, shown pressed but sending no events
+    droppedKey(code: string, dropped: boolean) {
+        const vkKey = this.getKeyElement(code);
+        if (!vkKey) return;
+        vkKey.classList.toggle('vk-key-dropped', dropped);
+    }
+
+    // Kana input switched on with the KanaMode key
+    imeActive(active: boolean) {
+        const vkKey = this.getKeyElement('KanaMode');
+        if (!vkKey) return;
+        vkKey.classList.toggle('vk-ime-on', active);
+    }
+
+    // Show the text being composed, with its conversion candidates once Convert was pressed
+    showComposition(text: string, candidates: string[] | null, selectedIndex: number) {
+        const strip = this.vkKeyboard.getRoot().querySelector('.vk-candidate-strip') as HTMLElement;
+        if (!strip) return;
+        strip.replaceChildren();
+        const pending = document.createElement('span');
+        pending.className = 'vk-composition';
+        pending.textContent = text;
+        strip.appendChild(pending);
+        candidates?.forEach((candidate, index) => {
+            const item = document.createElement('span');
+            item.className = 'vk-candidate';
+            item.classList.toggle('vk-candidate-selected', index === selectedIndex);
+            item.textContent = candidate;
+            strip.appendChild(item);
+        });
+        strip.hidden = false;
+    }
+
+    hideComposition() {
+        const strip = this.vkKeyboard.getRoot().querySelector('.vk-candidate-strip') as HTMLElement;
+        if (!strip) return;
+        strip.replaceChildren();
+        strip.hidden = true;
+    }
+
     capitalizeKeyboard(enabled: boolean) {
         const vkKeys = this.vkKeyboard.getRoot().querySelectorAll('.vk-key') as NodeListOf<HTMLElement>;
         vkKeys.forEach((vkKey) => {
@@ -47,6 +116,20 @@ export class VkVisual {
         });
     }
 
+    altGraphKeyboard(enabled: boolean) {
+        const vkKeys = this.vkKeyboard.getRoot().querySelectorAll('.vk-key') as NodeListOf<HTMLElement>;
+        vkKeys.forEach((vkKey) => {
+            const code = vkKey.dataset.code!;
+            if (this.vkKeyboard.jsonLayout.hasAltGraphLevel(code)) {
+                if (enabled) {
+                    vkKey.classList.add('vk-altgr');
+                } else {
+                    vkKey.classList.remove('vk-altgr');
+                }
+            }
+        });
+    }
+
     numLockKeyboard(activated: boolean) {
         const vkKeys = this.vkKeyboard.getRoot().querySelectorAll('.vk-key') as NodeListOf<HTMLElement>;
         vkKeys.forEach((vkKey) => {
@@ -62,11 +145,17 @@ export class VkVisual {
     }
 
     toggleKey(code: string, activated: boolean) {
-        const vkKey = this.vkKeyboard.getRoot().querySelector(`[data-code="${code}"]`) as HTMLElement;
-        if (activated) {
-            vkKey.classList.add('vk-key-down');
-        } else {
-            vkKey.classList.remove('vk-key-down');
+        const vkLed = this.vkKeyboard.getRoot().querySelector(`.vk-led[data-led="${code}"]`);
+        vkLed?.classList.toggle('vk-led-on', activated);
+
+        const vkKey = this.getKeyElement(code);
+        // The key may be absent from the current layout while its lock state is still tracked
+        if (vkKey) {
+            if (activated) {
+                vkKey.classList.add('vk-key-down');
+            } else {
+                vkKey.classList.remove('vk-key-down');
+            }
         }
 
         if (code === 'CapsLock') {
@@ -77,4 +166,17 @@ export class VkVisual {
             this.numLockKeyboard(activated);
         }
     }
+
+    overwriteMode(enabled: boolean) {
+        const vkLed = this.vkKeyboard.getRoot().querySelector('.vk-led[data-led="Overwrite"]');
+        vkLed?.classList.toggle('vk-led-on', enabled);
+    }
+
+    // Re-apply the visual state of activated toggle keys, e.g. after the template is re-rendered
+    syncToggleKeys() {
+        this.vkKeyboard.state.keys.activatedToggleKeys.forEach((code) => {
+            this.toggleKey(code, true);
+        });
+        this.overwriteMode(this.vkKeyboard.state.overwriteMode);
+    }
 }
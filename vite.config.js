@@ -82,7 +82,7 @@ export default defineConfig(({ command, mode }) => {
       plugins: [
         dts({
           include: ['src'],
-          exclude: ['**/*.css'],
+          exclude: ['**/*.css', '**/*.test.ts'],
           rollupTypes: true,
           compilerOptions: { stripInternal: true },
         })